@@ -15,6 +15,16 @@ class PartyLogEvent implements ShouldBroadcast
 {
     use SerializesModels, InteractsWithSockets;
 
+    /**
+     * A new log was added to the chat
+     */
+    const ACTION_CREATE = 'create';
+
+    /**
+     * An existing log was changed (e.g., a message was edited or removed)
+     */
+    const ACTION_UPDATE = 'update';
+
     /**
      * @var Party
      */
@@ -25,15 +35,21 @@ class PartyLogEvent implements ShouldBroadcast
      */
     public $log;
 
+    /**
+     * @var string
+     */
+    public $action;
+
     /**
      * Create a new event instance.
      *
      * @return void
      */
-    public function __construct(Party $party, PartyLog $log)
+    public function __construct(Party $party, PartyLog $log, string $action = self::ACTION_CREATE)
     {
         $this->party = $party;
         $this->log = $log;
+        $this->action = $action;
     }
 
     /**
@@ -64,7 +80,8 @@ class PartyLogEvent implements ShouldBroadcast
     public function broadcastWith()
     {
         return [
-            'log' => $this->log
+            'log' => $this->log,
+            'action' => $this->action
         ];
     }
 }
\ No newline at end of file
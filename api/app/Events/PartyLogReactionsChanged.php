@@ -0,0 +1,78 @@
+<?php
+
+namespace App\Events;
+
+use App\Party;
+use App\PartyLog;
+use Illuminate\Broadcasting\Channel;
+use Illuminate\Queue\SerializesModels;
+use Illuminate\Broadcasting\PrivateChannel;
+// use Illuminate\Broadcasting\PresenceChannel;
+use Illuminate\Broadcasting\InteractsWithSockets;
+use Illuminate\Contracts\Broadcasting\ShouldBroadcast;
+
+class PartyLogReactionsChanged implements ShouldBroadcast
+{
+    use SerializesModels, InteractsWithSockets;
+
+    /**
+     * @var Party
+     */
+    public $party;
+
+    /**
+     * @var PartyLog
+     */
+    public $log;
+
+    /**
+     * @var \Illuminate\Database\Eloquent\Collection
+     */
+    public $reactions;
+
+    /**
+     * Create a new event instance.
+     *
+     * @return void
+     */
+    public function __construct(Party $party, PartyLog $log, $reactions)
+    {
+        $this->party = $party;
+        $this->log = $log;
+        $this->reactions = $reactions;
+    }
+
+    /**
+     * Get the channels the event should broadcast on.
+     *
+     * @return Channel|array
+     */
+    public function broadcastOn()
+    {
+        return new PrivateChannel('party.'.$this->party->id);
+    }
+
+    /**
+     * The event's broadcast name.
+     *
+     * @return string
+     */
+    public function broadcastAs()
+    {
+        return 'log.reactions';
+    }
+
+    /**
+     * Get the data to broadcast.
+     *
+     * @return array
+     */
+    public function broadcastWith()
+    {
+        return [
+            'log_id' => $this->log->id,
+            // We'll send every reaction of the log so members don't have to keep track of the changes.
+            'reactions' => $this->reactions
+        ];
+    }
+}
\ No newline at end of file
@@ -0,0 +1,80 @@
+<?php
+
+namespace App\Events;
+
+use App\User;
+use App\Party;
+use Illuminate\Broadcasting\Channel;
+use Illuminate\Queue\SerializesModels;
+use Illuminate\Broadcasting\PrivateChannel;
+// use Illuminate\Broadcasting\PresenceChannel;
+use Illuminate\Broadcasting\InteractsWithSockets;
+use Illuminate\Contracts\Broadcasting\ShouldBroadcast;
+
+/**
+ * Broadcasts whether a member's video is waiting for data.
+ */
+class PartyMemberBuffering implements ShouldBroadcast
+{
+    use SerializesModels, InteractsWithSockets;
+
+    /**
+     * @var Party
+     */
+    public $party;
+
+    /**
+     * @var User
+     */
+    public $user;
+
+    /**
+     * @var bool
+     */
+    public $isBuffering;
+
+    /**
+     * Create a new event instance.
+     *
+     * @return void
+     */
+    public function __construct(Party $party, User $user, bool $isBuffering)
+    {
+        $this->party = $party;
+        $this->user = $user;
+        $this->isBuffering = $isBuffering;
+    }
+
+    /**
+     * Get the channels the event should broadcast on.
+     *
+     * @return Channel|array
+     */
+    public function broadcastOn()
+    {
+        return new PrivateChannel('party.'.$this->party->id);
+    }
+
+    /**
+     * The event's broadcast name.
+     *
+     * @return string
+     */
+    public function broadcastAs()
+    {
+        return 'member.buffering';
+    }
+
+    /**
+     * Get the data to broadcast.
+     *
+     * @return array
+     */
+    public function broadcastWith()
+    {
+        return [
+            'user_id' => $this->user->id,
+            'is_buffering' => $this->isBuffering
+        ];
+    }
+}
@@ -0,0 +1,77 @@
+<?php
+
+namespace App\Events;
+
+use App\User;
+use App\Party;
+use Illuminate\Broadcasting\Channel;
+use Illuminate\Queue\SerializesModels;
+use Illuminate\Broadcasting\PrivateChannel;
+// use Illuminate\Broadcasting\PresenceChannel;
+use Illuminate\Broadcasting\InteractsWithSockets;
+use Illuminate\Contracts\Broadcasting\ShouldBroadcast;
+
+class PartyMemberRoleChanged implements ShouldBroadcast
+{
+    use SerializesModels, InteractsWithSockets;
+
+    /**
+     * @var Party
+     */
+    public $party;
+
+    /**
+     * @var User
+     */
+    public $user;
+
+    /**
+     * @var string
+     */
+    public $role;
+
+    /**
+     * Create a new event instance.
+     *
+     * @return void
+     */
+    public function __construct(Party $party, User $user, string $role)
+    {
+        $this->party = $party;
+        $this->user = $user;
+        $this->role = $role;
+    }
+
+    /**
+     * Get the channels the event should broadcast on.
+     *
+     * @return Channel|array
+     */
+    public function broadcastOn()
+    {
+        return new PrivateChannel('party.'.$this->party->id);
+    }
+
+    /**
+     * The event's broadcast name.
+     *
+     * @return string
+     */
+    public function broadcastAs()
+    {
+        return 'member.role';
+    }
+
+    /**
+     * Get the data to broadcast.
+     *
+     * @return array
+     */
+    public function broadcastWith()
+    {
+        return [
+            'user_id' => $this->user->id,
+            'role' => $this->role
+        ];
+    }
+}
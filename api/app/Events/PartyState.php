@@ -4,6 +4,7 @@ namespace App\Events;
 
 use App\User;
 use App\Party;
+use App\Support\Helper;
 use Illuminate\Broadcasting\Channel;
 use Illuminate\Queue\SerializesModels;
 use Illuminate\Broadcasting\PrivateChannel;
@@ -20,6 +21,13 @@ class PartyState implements ShouldBroadcast
      */
     public $party;
 
+    /**
+     * When the party was at its current time (Unix timestamp with milliseconds)
+     *
+     * @var int
+     */
+    public $timestamp;
+
     /**
      * Create a new event instance.
      *
@@ -28,6 +36,7 @@ class PartyState implements ShouldBroadcast
     public function __construct(Party $party)
     {
         $this->party = $party;
+        $this->timestamp = $party->state_synced_at ?: Helper::getTimestampInMilliseconds();
     }
 
     /**
@@ -58,10 +67,9 @@ class PartyState implements ShouldBroadcast
     public function broadcastWith()
     {
         return [
-            'state' => [
-                'is_playing' => $this->party->is_playing,
-                'current_time' => $this->party->current_time
-            ]
+            'state' => array_merge($this->party->getState(), [
+                'timestamp' => $this->timestamp
+            ])
         ];
     }
 }
\ No newline at end of file
@@ -0,0 +1,19 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use App\Support\Helper;
+
+class ClockController extends Controller
+{
+    /**
+     * Used by clients to estimate the offset between their clock and ours.
+     * Keep this as light as possible; the round trip time is part of the estimate.
+     *
+     * @return \Illuminate\Http\Response
+     */
+    public function now()
+    {
+        return response()->json([ 'timestamp' => Helper::getTimestampInMilliseconds() ]);
+    }
+}
@@ -5,6 +5,7 @@ namespace App\Http\Controllers\Hooks;
 use Illuminate\Http\Request;
 use App\Http\Controllers\Controller;
 use App\Party;
+use App\Events\PartyState;
 
 class PusherController extends Controller
 {
@@ -57,8 +58,14 @@ class PusherController extends Controller
             $user->pivot->is_active = true;
         } else {
             $user->pivot->is_active = false;
+            // Members who left shouldn't keep the party waiting for them.
+            $user->pivot->is_buffering = false;
         }
 
         $user->pivot->save();
+
+        if ($party->wait_for_everyone && $party->resumeIfEveryoneIsReady()) {
+            broadcast(new PartyState($party));
+        }
     }
 }
@@ -8,9 +8,21 @@ use App\Events\PartyState;
 use App\PartyActivity;
 use App\Events\PartyVideoChanged;
 use App\Events\PartyLogEvent;
+use App\Events\PartyMemberBuffering;
+use App\Events\PartyMemberOffset;
+use App\Events\PartyReaction;
+use App\Events\PartySettingsChanged;
 
 class PartiesController extends Controller
 {
+    /**
+     * How many floating reactions a member can send per second.
+     * Members send at most 4 (one every 250ms), so we'll leave a bit of room for network hiccups.
+     *
+     * @var int
+     */
+    const REACTIONS_PER_SECOND = 6;
+
     /**
      * Store a newly created resource in storage.
      *
@@ -30,7 +42,8 @@ class PartiesController extends Controller
         ]);
 
         $party->members()->attach($request->user()->id, [
-            'is_active' => false
+            'is_active' => false,
+            'role' => Party::ROLE_HOST
         ]);
 
         $activity = \App\PartyActivity::create([
@@ -70,30 +83,72 @@ class PartiesController extends Controller
     {
         // Properly typecast the request data
         $payload = [
-            'current_time' => (int) $request->get('current_time'),
+            'current_time' => (float) $request->get('current_time'),
             'is_playing' => (boolean) $request->get('is_playing')
         ];
 
-        $action = null;
+        $time = Helper::getReadableFormatFromDurationInSeconds((int) $payload['current_time']);
 
-        $time = Helper::getReadableFormatFromDurationInSeconds($payload['current_time']);
+        list($party, $action) = $this->applyStateChange($request, $party, [
+            'current_time' => $payload['current_time'],
+            'is_playing' => $payload['is_playing'],
+            // Whoever played or paused has taken over; we're no longer waiting for anyone.
+            'is_waiting' => false
+        ], function(Party $party) use ($payload, $time) {
+            // Since stale changes are rejected, the stored state is the one the member saw before acting.
+            if ($party->is_playing && !$payload['is_playing']) {
+                return 'paused the video (' . $time . ')';
+            } else if (!$party->is_playing && $payload['is_playing']) {
+                return 'played the video (' . $time . ')';
+            }
 
-        if ($party->is_playing && !$payload['is_playing']) {
-            $action = 'paused the video (' . $time . ')';
-        } else if (!$party->is_playing && $payload['is_playing']) {
-            $action = 'played the video (' . $time . ')';
-        } else {
-            // By default, the user probably seeked.
-            // This is pretty brittle because what if two users tried to play/pause
-            // the video at the same time? Not urgent, but something to look at in the future.
-            $action = 'seeked to ' . $time;
+            return 'seeked to ' . $time;
+        });
+
+        if ($action === null) {
+            return $this->rejectStaleState($party);
         }
 
-        $party->fill([
-            'current_time' => (int) $request->get('current_time'),
-            'is_playing' => (boolean) $request->get('is_playing'),
-            'last_activity_at' => date('Y-m-d H:i:s')
-        ])->save();
+        $activity = PartyActivity::create([
+            'user_id' => $request->user()->id,
+            'party_id' => $party->id,
+            'text' => $action
+        ]);
+
+        $log = $party->logs()->create([
+            'loggable_type' => PartyActivity::class,
+            'loggable_id' => $activity->id
+        ]);
+
+        broadcast(new PartyState($party))->toOthers();
+
+        broadcast(new PartyLogEvent($party, $log));
+
+        return $party;
+    }
+
+    /**
+     * Change the playback speed for every member
+     *
+     * @param  \Illuminate\Http\Request  $request
+     * @param  int  $id
+     * @return \Illuminate\Http\Response
+     */
+    public function rate(\App\Http\Requests\UpdatePlaybackRate $request, Party $party)
+    {
+        $rate = (float) $request->get('playback_rate');
+
+        list($party, $action) = $this->applyStateChange($request, $party, [
+            'current_time' => (float) $request->get('current_time'),
+            'playback_rate' => $rate
+        ], function() use ($rate) {
+            // 1.50 -> 1.5x, 1.00 -> 1x
+            return 'set speed to ' . rtrim(rtrim(number_format($rate, 2), '0'), '.') . 'x';
+        });
+
+        if ($action === null) {
+            return $this->rejectStaleState($party);
+        }
 
         $activity = PartyActivity::create([
             'user_id' => $request->user()->id,
@@ -114,26 +169,175 @@ class PartiesController extends Controller
     }
 
     /**
-     * Update the specified resource in storage.
+     * Heartbeat from the member elected to report the playing position
+     * so late joiners don't resume from the last explicit seek.
      *
-     * @todo Permission for non
      * @param  \Illuminate\Http\Request  $request
      * @param  int  $id
      * @return \Illuminate\Http\Response
      */
     public function time(\App\Http\Requests\UpdatePartyState $request, Party $party)
     {
-        $party->fill([
-            'current_time' => (int) $request->get('current_time')
-        ])->save();
+        $time = (float) $request->get('current_time');
+
+        // Only the elected member reports the position; otherwise, members who disagree on who it is
+        // (e.g., while someone's member list is stale) would keep overwriting each other.
+        $member = $party->getHeartbeatMember();
+
+        if ($member === null || $member->id != $request->user()->id) {
+            return $party;
+        }
+
+        // A heartbeat is only good for the state it was measured on. We'll check it in the
+        // same query so a play, pause, or seek that just went through doesn't get overwritten.
+        Party::where('id', $party->id)
+            ->where('state_version', (int) $request->get('version'))
+            ->where('is_playing', true)
+            ->update([
+                'current_time' => $time,
+                'state_synced_at' => Helper::getTimestampInMilliseconds(),
+                'last_activity_at' => now()
+            ]);
+
+        return $party->fresh();
+    }
+
+    /**
+     * Update the party settings (e.g., wait for everyone while someone's buffering, who controls playback)
+     *
+     * @param  \Illuminate\Http\Request  $request
+     * @param  int  $id
+     * @return \Illuminate\Http\Response
+     */
+    public function settings(\App\Http\Requests\UpdatePartySettings $request, Party $party)
+    {
+        $party->fill($request->only([
+            'wait_for_everyone',
+            'playback_control',
+            'video_control'
+        ]));
+
+        $changes = array_keys($party->getDirty());
+
+        $party->save();
+
+        broadcast(new PartySettingsChanged($party))->toOthers();
+
+        foreach ($changes as $setting) {
+            $activity = PartyActivity::create([
+                'user_id' => $request->user()->id,
+                'party_id' => $party->id,
+                'text' => $this->getSettingActivityText($party, $setting)
+            ]);
+
+            $log = $party->logs()->create([
+                'loggable_type' => PartyActivity::class,
+                'loggable_id' => $activity->id
+            ]);
+
+            broadcast(new PartyLogEvent($party, $log));
+        }
+
+        // We don't want the party to be stuck waiting for someone after turning it off.
+        if (!$party->wait_for_everyone && $party->is_waiting) {
+            $party->fillState([
+                'is_playing' => true,
+                'is_waiting' => false
+            ])->save();
+
+            broadcast(new PartyState($party));
+        }
+
+        return $party;
+    }
+
+    /**
+     * Report whether the member's video is waiting for data.
+     * If the party waits for everyone, this pauses or resumes the party for all members.
+     *
+     * @param  \Illuminate\Http\Request  $request
+     * @param  int  $id
+     * @return \Illuminate\Http\Response
+     */
+    public function buffering(\App\Http\Requests\UpdateBufferingState $request, Party $party)
+    {
+        $isBuffering = (boolean) $request->get('is_buffering');
+
+        $member = $party->members()->where('user_id', $request->user()->id)->first();
+        $member->pivot->is_buffering = $isBuffering;
+        $member->pivot->save();
+
+        broadcast(new PartyMemberBuffering($party, $request->user(), $isBuffering))->toOthers();
+
+        if (!$party->wait_for_everyone) {
+            return $party;
+        }
+
+        // Unlike the state endpoint, we're broadcasting the state to the sender as well
+        // since the pause and resume are decided here, not by the sender.
+        if ($isBuffering && $party->is_playing) {
+            // We'll pause where the member got stuck so nobody gets ahead of them.
+            $party->fillState([
+                'current_time' => (float) $request->get('current_time'),
+                'is_playing' => false,
+                'is_waiting' => true
+            ])->save();
+
+            broadcast(new PartyState($party));
+        } else if (!$isBuffering && $party->resumeIfEveryoneIsReady()) {
+            broadcast(new PartyState($party));
+        }
 
         return $party;
     }
 
+    /**
+     * Let the other members know how far the member's video is from the party position.
+     * This isn't stored since it's only meaningful while the member is watching.
+     *
+     * @param  \Illuminate\Http\Request  $request
+     * @param  int  $id
+     * @return \Illuminate\Http\Response
+     */
+    public function offset(\App\Http\Requests\ReportSyncOffset $request, Party $party)
+    {
+        broadcast(new PartyMemberOffset($party, $request->user(), (float) $request->get('offset')))->toOthers();
+
+        return response()->json(['success' => true]);
+    }
+
+    /**
+     * Send an emoji that floats over everyone's video.
+     * Unlike message reactions, these aren't stored in the chat.
+     *
+     * @param  \Illuminate\Http\Request  $request
+     * @param  int  $id
+     * @return \Illuminate\Http\Response
+     */
+    public function reaction(\App\Http\Requests\SendPartyReaction $request, Party $party)
+    {
+        // Members could otherwise flood everyone's video by calling the api directly.
+        $limiter = app(\Illuminate\Cache\RateLimiter::class);
+        $key = 'party-reactions:' . $request->user()->id;
+
+        if ($limiter->tooManyAttempts($key, self::REACTIONS_PER_SECOND)) {
+            return response()->json([
+                'error' => true,
+                'status' => 429,
+                'message' => 'You are sending reactions too quickly.'
+            ], 429);
+        }
+
+        $limiter->hit($key, 1);
+
+        broadcast(new PartyReaction($party, $request->user(), $request->get('emoji')))->toOthers();
+
+        return response()->json(['success' => true]);
+    }
+
     /**
      * Endpoint to change a party's current show
      *
-     * @todo Permission for non-party host
      * @param  \Illuminate\Http\Request  $request
      * @param  int  $id
      * @return \Illuminate\Http\Response
@@ -141,13 +345,12 @@ class PartiesController extends Controller
     public function changeVideo(\App\Http\Requests\ChangePartyVideo $request, Party $party)
     {
         $party = tap(
-            $party->fill([
+            $party->fillState([
                 'show_video_id' => $request->get('show_video_id'),
                 'is_playing' => false,
                 'is_expired' => false,
-                'current_time' => 0,
-                'last_activity_at' => now()
-            ])
+                'current_time' => 0
+            ], $request->user())
         )->save()->fresh();
 
         $activity = \App\PartyActivity::create([
@@ -167,4 +370,68 @@ class PartiesController extends Controller
 
         return $party;
     }
+
+    /**
+     * Apply a member's state change unless someone else got ahead of the version they last saw.
+     * We'll lock the row so two members acting at the same time can't both build on the same version.
+     *
+     * @param  callable  $describe Gets the activity text from the party before the change
+     * @return array The party, and the activity text (null if the change was stale)
+     */
+    protected function applyStateChange($request, Party $party, array $state, callable $describe) {
+        return \DB::transaction(function() use ($request, $party, $state, $describe) {
+            $party = Party::lockForUpdate()->find($party->id);
+
+            if ($party->isStateStale((int) $request->get('version'), $request->user())) {
+                return [$party, null];
+            }
+
+            $action = $describe($party);
+
+            $party->fillState($state, $request->user())->save();
+
+            return [$party, $action];
+        });
+    }
+
+    /**
+     * Respond with the state that got ahead of the member's change so they can follow it.
+     * The timestamp is when that state was set, so the member can tell how far the party has played since.
+     *
+     * @return \Illuminate\Http\Response
+     */
+    protected function rejectStaleState(Party $party) {
+        return response()->json([
+            'error' => true,
+            'status' => 409,
+            'message' => 'Someone else changed the playback before you did.',
+            'state' => array_merge($party->getState(), [
+                'timestamp' => $party->state_synced_at ?: Helper::getTimestampInMilliseconds()
+            ])
+        ], 409);
+    }
+
+    /**
+     * turned on waiting for everyone
+     * allowed the host and co-hosts to control playback
+     *
+     * @return string
+     */
+    protected function getSettingActivityText(Party $party, $setting) {
+        if ($setting === 'wait_for_everyone') {
+            return $party->wait_for_everyone
+                ? 'turned on waiting for everyone'
+                : 'turned off waiting for everyone';
+        }
+
+        $who = [
+            Party::CONTROL_EVERYONE => 'everyone',
+            Party::CONTROL_CO_HOSTS => 'the host and co-hosts',
+            Party::CONTROL_HOST => 'only the host'
+        ][$party->{$setting}];
+
+        return $setting === 'playback_control'
+            ? "allowed {$who} to control playback"
+            : "allowed {$who} to change the video";
+    }
 }
@@ -98,7 +98,8 @@ class PartyInvitationsController extends Controller
         $party = $invitation->party;
 
         $party->members()->attach($request->user()->id, [
-            'is_active' => false
+            'is_active' => false,
+            'role' => Party::ROLE_VIEWER
         ]);
 
         // `attach()` above doesn't reload a collection, so we're forcing it by
@@ -5,24 +5,61 @@ namespace App\Http\Controllers;
 use App\Party;
 use App\PartyMessage;
 use App\PartyActivity;
+use App\PartyQuote;
+use App\PartyLog;
 use App\Events\PartyLogEvent;
+use App\Events\PartyLogReactionsChanged;
 use Illuminate\Http\Request;
+use Illuminate\Database\QueryException;
 
 class PartyLogsController extends Controller
 {
     /**
-     * Display a listing of the resource.
+     * How many logs we'll give at a time
+     *
+     * @var int
+     */
+    const LOGS_PER_PAGE = 50;
+
+    /**
+     * Display a listing of the resource, a page at a time starting from the latest.
+     * Older logs are loaded by passing the id of the oldest log the member has as `offset`.
      *
      * @return \Illuminate\Http\Response
      */
     public function index(\App\Http\Requests\GetPartyLogs $request, Party $party)
     {
-        return $party->logs()->orderBy('created_at', 'asc')
-            // ->limit(30)
+        $logs = $party->logs()->orderBy('id', 'desc')
+            // We'll take an extra log to know if there are more logs before this page.
+            ->limit(self::LOGS_PER_PAGE + 1)
             ->when($request->has('offset'), function($query) use ($request) {
                 $query->where('id', '<', $request->get('offset'));
             })
+            // Only messages and quotes know which episode they were sent from, so activities are left out.
+            ->when($request->has('show_video_id'), function($query) use ($request) {
+                $video = $request->get('show_video_id');
+
+                $query->where(function($query) use ($video) {
+                    $query->where(function($query) use ($video) {
+                        $query->where('loggable_type', PartyMessage::class)
+                            ->whereIn('loggable_id', function($query) use ($video) {
+                                $query->select('id')->from('party_log_messages')->where('show_video_id', $video);
+                            });
+                    })->orWhere(function($query) use ($video) {
+                        $query->where('loggable_type', PartyQuote::class)
+                            ->whereIn('loggable_id', function($query) use ($video) {
+                                $query->select('id')->from('party_log_quotes')->where('show_video_id', $video);
+                            });
+                    });
+                });
+            })
             ->get();
+
+        return response()->json([
+            // Oldest first, which is how the chat shows them
+            'data' => $logs->take(self::LOGS_PER_PAGE)->reverse()->values(),
+            'has_more' => $logs->count() > self::LOGS_PER_PAGE
+        ]);
     }
 
     /**
@@ -55,21 +92,222 @@ class PartyLogsController extends Controller
      */
     public function message(\App\Http\Requests\SendPartyMessage $request, Party $party)
     {
-        // @TODO Check if both syntax have the same effect.
-        $activity = PartyMessage::create([
+        // The member may be resending a message we already have (e.g., the response got lost
+        // while their connection dropped), so we'll give them back the log we created before.
+        $existing = $request->filled('client_id') ? $this->findSentMessage($request, $party) : null;
+
+        if ($existing !== null) {
+            return $existing->log;
+        }
+
+        try {
+            // The message and its log go in together so a resend never finds a message without its log.
+            $log = \DB::transaction(function() use ($request, $party) {
+                // @TODO Check if both syntax have the same effect.
+                $activity = PartyMessage::create([
+                    'user_id' => $request->user()->id,
+                    'party_id' => $party->id,
+                    'show_video_id' => $party->show_video_id,
+                    'text' => $request->get('message'),
+                    'current_time' => $request->filled('current_time') ? (float) $request->get('current_time') : null,
+                    'reply_to_id' => $request->get('reply_to_id'),
+                    'client_id' => $request->get('client_id')
+                ]);
+
+                return $party->logs()->create([
+                    'loggable_type' => PartyMessage::class,
+                    'loggable_id' => $activity->id
+                ])->fresh();
+            });
+        } catch (QueryException $e) {
+            // Two resends of the same message can both miss the check above; the second one
+            // trips the unique index, so we'll give it the log the first one created.
+            if (!$request->filled('client_id') || !$this->isDuplicateEntry($e)) {
+                throw $e;
+            }
+
+            return $this->findSentMessage($request, $party)->log;
+        }
+
+        broadcast(new PartyLogEvent($party, $log))->toOthers();
+
+        // This seems a safer bet than `$log->load('loggable')`.
+        return $log;
+    }
+
+    /**
+     * Edit the member's own message.
+     *
+     * @return \Illuminate\Http\Response
+     */
+    public function edit(\App\Http\Requests\UpdatePartyMessage $request, Party $party, $log)
+    {
+        $log = $this->findOwnMessage($request, $party, $log);
+
+        $log->loggable->update([
+            'text' => $request->get('message'),
+            'edited_at' => now()
+        ]);
+
+        return $this->broadcastUpdate($party, $log);
+    }
+
+    /**
+     * Remove the member's own message. The log is kept so the chat can show "message removed".
+     *
+     * @return \Illuminate\Http\Response
+     */
+    public function remove(Request $request, Party $party, $log)
+    {
+        $log = $this->findOwnMessage($request, $party, $log);
+
+        $log->loggable->update([
+            'text' => '',
+            'removed_at' => now()
+        ]);
+
+        return $this->broadcastUpdate($party, $log);
+    }
+
+    /**
+     * Post a subtitle line to the chat, along with when it shows up in the video.
+     *
+     * @return \Illuminate\Http\Response
+     */
+    public function quote(\App\Http\Requests\SendPartyQuote $request, Party $party)
+    {
+        $quote = PartyQuote::create([
             'user_id' => $request->user()->id,
             'party_id' => $party->id,
-            'text' => $request->get('message')
+            'show_video_id' => $party->show_video_id,
+            'text' => $request->get('text'),
+            'time' => (float) $request->get('time')
         ]);
 
         $log = $party->logs()->create([
-            'loggable_type' => PartyMessage::class,
-            'loggable_id' => $activity->id
+            'loggable_type' => PartyQuote::class,
+            'loggable_id' => $quote->id
         ])->fresh();
 
         broadcast(new PartyLogEvent($party, $log))->toOthers();
 
-        // This seems a safer bet than `$log->load('loggable')`.
         return $log;
     }
+
+    /**
+     * Add the member's emoji reaction to a message (or quote).
+     *
+     * @return \Illuminate\Http\Response
+     */
+    public function react(\App\Http\Requests\ReactToPartyLog $request, Party $party, $log)
+    {
+        $log = $this->findReactableLog($party, $log);
+
+        $log->reactions()->firstOrCreate([
+            'user_id' => $request->user()->id,
+            'emoji' => $request->get('emoji')
+        ]);
+
+        return $this->broadcastReactions($party, $log);
+    }
+
+    /**
+     * Remove the member's emoji reaction from a message (or quote).
+     *
+     * @return \Illuminate\Http\Response
+     */
+    public function unreact(\App\Http\Requests\ReactToPartyLog $request, Party $party, $log)
+    {
+        $log = $this->findReactableLog($party, $log);
+
+        $log->reactions()
+            ->where('user_id', $request->user()->id)
+            ->where('emoji', $request->get('emoji'))
+            ->delete();
+
+        return $this->broadcastReactions($party, $log);
+    }
+
+    /**
+     * Find the message the member already sent with the same client id
+     *
+     * @return PartyMessage|null
+     */
+    protected function findSentMessage(Request $request, Party $party)
+    {
+        return PartyMessage::where('party_id', $party->id)
+            ->where('user_id', $request->user()->id)
+            ->where('client_id', $request->get('client_id'))
+            ->first();
+    }
+
+    /**
+     * Check if the query failed because of a unique index (MySQL error 1062)
+     *
+     * @return bool
+     */
+    protected function isDuplicateEntry(QueryException $e)
+    {
+        return isset($e->errorInfo[1]) && $e->errorInfo[1] == 1062;
+    }
+
+    /**
+     * Members can only change messages they sent, and only until they remove them.
+     *
+     * @return PartyLog
+     */
+    protected function findOwnMessage(Request $request, Party $party, $id)
+    {
+        $log = $party->logs()
+            ->where('loggable_type', PartyMessage::class)
+            ->findOrFail($id);
+
+        if ($log->loggable->user_id != $request->user()->id) {
+            abort(403);
+        }
+
+        if ($log->loggable->removed_at !== null) {
+            abort(404);
+        }
+
+        return $log;
+    }
+
+    /**
+     * Members apply the change to the log they already have instead of appending it.
+     *
+     * @return PartyLog
+     */
+    protected function broadcastUpdate(Party $party, PartyLog $log)
+    {
+        $log = $log->fresh();
+
+        broadcast(new PartyLogEvent($party, $log, PartyLogEvent::ACTION_UPDATE))->toOthers();
+
+        return $log;
+    }
+
+    /**
+     * Activities are written by the app, so only messages and quotes can be reacted to.
+     *
+     * @return PartyLog
+     */
+    protected function findReactableLog(Party $party, $id)
+    {
+        return $party->logs()
+            ->where('loggable_type', '!=', PartyActivity::class)
+            ->findOrFail($id);
+    }
+
+    /**
+     * @return \Illuminate\Database\Eloquent\Collection
+     */
+    protected function broadcastReactions(Party $party, PartyLog $log)
+    {
+        $reactions = $log->reactions()->get();
+
+        broadcast(new PartyLogReactionsChanged($party, $log, $reactions))->toOthers();
+
+        return $reactions;
+    }
 }
@@ -0,0 +1,61 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use App\User;
+use App\Party;
+use App\PartyActivity;
+use App\Events\PartyLogEvent;
+use App\Events\PartyMemberRoleChanged;
+
+class PartyMembersController extends Controller
+{
+    /**
+     * Change a member's role (host, co-host, viewer)
+     *
+     * @param  \Illuminate\Http\Request  $request
+     * @param  int  $id
+     * @return \Illuminate\Http\Response
+     */
+    public function role(\App\Http\Requests\UpdateMemberRole $request, Party $party, User $user)
+    {
+        $member = $party->members()->where('user_id', $user->id)->firstOrFail();
+        $role = $request->get('role');
+
+        // A party only has one host, so the current host steps down to a co-host in the same transaction.
+        \DB::transaction(function() use ($request, $party, $member, $role) {
+            if ($role === Party::ROLE_HOST) {
+                $party->members()->updateExistingPivot($request->user()->id, [
+                    'role' => Party::ROLE_CO_HOST
+                ]);
+            }
+
+            $party->members()->updateExistingPivot($member->id, [
+                'role' => $role
+            ]);
+        });
+
+        if ($role === Party::ROLE_HOST) {
+            broadcast(new PartyMemberRoleChanged($party, $request->user(), Party::ROLE_CO_HOST))->toOthers();
+        }
+
+        $activity = PartyActivity::create([
+            'user_id' => $request->user()->id,
+            'party_id' => $party->id,
+            'text' => $role === Party::ROLE_HOST
+                ? "made {$member->name} the host"
+                : "made {$member->name} a {$role}"
+        ]);
+
+        $log = $party->logs()->create([
+            'loggable_type' => PartyActivity::class,
+            'loggable_id' => $activity->id
+        ]);
+
+        broadcast(new PartyMemberRoleChanged($party, $member, $role))->toOthers();
+
+        broadcast(new PartyLogEvent($party, $log));
+
+        return $party->fresh();
+    }
+}
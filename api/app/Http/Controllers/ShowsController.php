@@ -4,6 +4,7 @@ namespace App\Http\Controllers;
 
 use App\Show;
 use App\ShowVideo;
+use App\ShowVideoSubtitle;
 use Illuminate\Http\Request;
 
 class ShowsController extends Controller
@@ -28,13 +29,13 @@ class ShowsController extends Controller
      * 
      * @return \Illuminate\Http\Response
      */
-    public function subtitle(ShowVideo $video) {
-        if (empty($video->subtitle_url)) {
-            return response()->json([ 'subtitle' => '' ]);
+    public function subtitle(ShowVideo $video, ShowVideoSubtitle $subtitle) {
+        if ($subtitle->show_video_id != $video->id) {
+            abort(404);
         }
 
         $client = new \GuzzleHttp\Client();
-        $response = $client->request('GET', $video->subtitle_url);
+        $response = $client->request('GET', $subtitle->url);
         return response()->json([ 'subtitle' => (string) $response->getBody() ]);
     }
 }
@@ -13,7 +13,7 @@ class ChangePartyVideo extends FormRequest
      */
     public function authorize()
     {
-        return true;
+        return $this->user()->canChangeVideoOf($this->route('party'));
     }
 
     /**
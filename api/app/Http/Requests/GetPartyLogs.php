@@ -24,7 +24,8 @@ class GetPartyLogs extends FormRequest
     public function rules()
     {
         return [
-            'offset' => 'numeric'
+            'offset' => 'numeric',
+            'show_video_id' => 'integer'
         ];
     }
 }
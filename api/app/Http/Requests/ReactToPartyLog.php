@@ -0,0 +1,32 @@
+<?php
+
+namespace App\Http\Requests;
+
+use App\PartyLogReaction;
+use Illuminate\Validation\Rule;
+use Illuminate\Foundation\Http\FormRequest;
+
+class ReactToPartyLog extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     *
+     * @return bool
+     */
+    public function authorize()
+    {
+        return true;
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     *
+     * @return array
+     */
+    public function rules()
+    {
+        return [
+            'emoji' => ['required', Rule::in(PartyLogReaction::EMOJIS)]
+        ];
+    }
+}
@@ -2,6 +2,8 @@
 
 namespace App\Http\Requests;
 
+use App\PartyActivity;
+use Illuminate\Validation\Rule;
 use Illuminate\Foundation\Http\FormRequest;
 
 class SendPartyMessage extends FormRequest
@@ -24,7 +26,18 @@ class SendPartyMessage extends FormRequest
     public function rules()
     {
         return [
-            'message' => 'required'
+            'message' => 'required',
+            // Where the sender was in the video, in seconds
+            'current_time' => 'nullable|numeric|min:0',
+            // Generated by the sender to avoid posting the same message twice when resending
+            'client_id' => 'nullable|string|max:36',
+            // Only messages and quotes from the same party can be replied to.
+            'reply_to_id' => [
+                'nullable',
+                Rule::exists('party_logs', 'id')
+                    ->where('party_id', $this->route('party')->id)
+                    ->whereNot('loggable_type', PartyActivity::class)
+            ]
         ];
     }
 }
@@ -0,0 +1,40 @@
+<?php
+
+namespace App\Http\Requests;
+
+use Illuminate\Foundation\Http\FormRequest;
+
+class UpdateMemberRole extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     *
+     * @return bool
+     */
+    public function authorize()
+    {
+        return $this->user()->isHostOf($this->route('party'));
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     *
+     * @return array
+     */
+    public function rules()
+    {
+        return [
+            // Making someone else the host makes the current host a co-host.
+            'role' => [
+                'required',
+                'in:host,co-host,viewer',
+                function ($attribute, $value, $fail) {
+                    // Otherwise the party would be left without a host to manage it.
+                    if ($this->route('user')->id == $this->user()->id) {
+                        $fail('You can only step down by making someone else the host.');
+                    }
+                }
+            ]
+        ];
+    }
+}
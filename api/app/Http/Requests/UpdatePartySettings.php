@@ -0,0 +1,39 @@
+<?php
+
+namespace App\Http\Requests;
+
+use Illuminate\Foundation\Http\FormRequest;
+
+class UpdatePartySettings extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     *
+     * @return bool
+     */
+    public function authorize()
+    {
+        $party = $this->route('party');
+
+        // Only the host decides who gets to control the party.
+        if ($this->has('playback_control') || $this->has('video_control')) {
+            return $this->user()->isHostOf($party);
+        }
+
+        return $this->user()->canControlPlaybackOf($party);
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     *
+     * @return array
+     */
+    public function rules()
+    {
+        return [
+            'wait_for_everyone' => 'sometimes|boolean',
+            'playback_control' => 'sometimes|in:everyone,co-hosts,host',
+            'video_control' => 'sometimes|in:everyone,co-hosts,host'
+        ];
+    }
+}
@@ -13,7 +13,7 @@ class UpdatePartyState extends FormRequest
      */
     public function authorize()
     {
-        return true;
+        return $this->user()->canControlPlaybackOf($this->route('party'));
     }
 
     /**
@@ -28,7 +28,9 @@ class UpdatePartyState extends FormRequest
             // @TODO Should not be more than the current video's duration.
             // Currently applies for connection losses, even if we don't fully support that anyway haha.
             // Just to protect our data from becoming trashed.
-            'current_time' => 'required|numeric'
+            'current_time' => 'required|numeric',
+            // The state version the member last saw, so we can tell if someone else got ahead of them.
+            'version' => 'required|integer'
         ];
     }
 }
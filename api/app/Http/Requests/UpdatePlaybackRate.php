@@ -0,0 +1,33 @@
+<?php
+
+namespace App\Http\Requests;
+
+use Illuminate\Foundation\Http\FormRequest;
+
+class UpdatePlaybackRate extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     *
+     * @return bool
+     */
+    public function authorize()
+    {
+        return $this->user()->canControlPlaybackOf($this->route('party'));
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     *
+     * @return array
+     */
+    public function rules()
+    {
+        return [
+            'playback_rate' => 'required|in:0.5,0.75,1,1.25,1.5,2',
+            // Where the member changed the speed; everyone plays at the new speed from here.
+            'current_time' => 'required|numeric',
+            'version' => 'required|integer'
+        ];
+    }
+}
@@ -2,10 +2,19 @@
 
 namespace App;
 
+use App\Support\Helper;
 use Illuminate\Database\Eloquent\Model;
 
 class Party extends Model
 {
+    const ROLE_HOST = 'host';
+    const ROLE_CO_HOST = 'co-host';
+    const ROLE_VIEWER = 'viewer';
+
+    const CONTROL_EVERYONE = 'everyone';
+    const CONTROL_CO_HOSTS = 'co-hosts';
+    const CONTROL_HOST = 'host';
+
     /**
      * The attributes that are mass assignable.
      *
@@ -17,7 +26,30 @@ class Party extends Model
         'is_playing',
         'is_expired',
         'current_time',
-        'last_activity_at'
+        'last_activity_at',
+        'wait_for_everyone',
+        'is_waiting',
+        'playback_control',
+        'video_control',
+        'state_version',
+        'state_updated_by',
+        'state_synced_at',
+        'playback_rate'
+    ];
+
+    /**
+     * The attributes that should be cast to native types.
+     *
+     * @var array
+     */
+    protected $casts = [
+        'wait_for_everyone' => 'boolean',
+        'is_waiting' => 'boolean',
+        'state_version' => 'integer',
+        'state_updated_by' => 'integer',
+        'state_synced_at' => 'integer',
+        'current_time' => 'float',
+        'playback_rate' => 'float'
     ];
 
     /**
@@ -51,7 +83,7 @@ class Party extends Model
     }
 
     public function members() {
-        return $this->belongsToMany(User::class)->withPivot('is_active');
+        return $this->belongsToMany(User::class)->withPivot('is_active', 'is_buffering', 'role');
     }
 
     public function invitations() {
@@ -61,4 +93,142 @@ class Party extends Model
     public function activities() {
         return $this->hasManyThrough(PartyActivity::class, PartyLog::class);
     }
+
+    /**
+     * Get the member's role (host, co-host, viewer)
+     *
+     * @return string|null
+     */
+    public function getRoleOf(User $user) {
+        $member = $this->members()->where('user_id', $user->id)->first();
+        return $member ? $member->pivot->role : null;
+    }
+
+    /**
+     * Check if the member's role satisfies a control policy (e.g., `playback_control`)
+     *
+     * @return bool
+     */
+    public function allows(User $user, $control) {
+        return $this->roleAllows($this->getRoleOf($user), $control);
+    }
+
+    /**
+     * Elect the member who reports the playing position for everyone, the same way members do:
+     * hosts first, then co-hosts, then the earliest account, among active members who can control playback.
+     *
+     * @return \App\User|null
+     */
+    public function getHeartbeatMember() {
+        $ranks = [self::ROLE_HOST, self::ROLE_CO_HOST, self::ROLE_VIEWER];
+
+        return $this->members()
+            ->wherePivot('is_active', true)
+            ->get()
+            ->filter(function($member) {
+                return $this->roleAllows($member->pivot->role, $this->playback_control);
+            })
+            ->sort(function($a, $b) use ($ranks) {
+                $rank = array_search($a->pivot->role, $ranks) - array_search($b->pivot->role, $ranks);
+                return $rank === 0 ? $a->id - $b->id : $rank;
+            })
+            ->first();
+    }
+
+    /**
+     * Check if a role satisfies a control policy
+     *
+     * @return bool
+     */
+    protected function roleAllows($role, $control) {
+        if ($role === null) {
+            return false;
+        }
+
+        if ($control === self::CONTROL_EVERYONE) {
+            return true;
+        }
+
+        if ($control === self::CONTROL_CO_HOSTS) {
+            return in_array($role, [self::ROLE_HOST, self::ROLE_CO_HOST]);
+        }
+
+        return $role === self::ROLE_HOST;
+    }
+
+    /**
+     * Fill the playback state (is_playing, current_time, is_waiting, playback_rate) and bump its version
+     * so members can tell which state is the latest.
+     *
+     * @param  \App\User|null  $user Who made the change; null if the server did
+     * @return $this
+     */
+    public function fillState(array $state, User $user = null) {
+        return $this->fill(array_merge($state, [
+            'state_version' => $this->state_version + 1,
+            'state_updated_by' => $user ? $user->id : null,
+            'state_synced_at' => Helper::getTimestampInMilliseconds(),
+            'last_activity_at' => now()
+        ]));
+    }
+
+    /**
+     * Check if a state change based on the given version was overtaken by someone else's.
+     * Changes on top of the member's own latest change are rebased instead of rejected.
+     *
+     * @return bool
+     */
+    public function isStateStale($version, User $user) {
+        if ($version >= $this->state_version) {
+            return false;
+        }
+
+        return $this->state_updated_by !== $user->id;
+    }
+
+    /**
+     * Get the playback state as broadcasted to the members
+     *
+     * @return array
+     */
+    public function getState() {
+        return [
+            'is_playing' => $this->is_playing,
+            'current_time' => $this->current_time,
+            'is_waiting' => $this->is_waiting,
+            'playback_rate' => $this->playback_rate,
+            'version' => $this->state_version,
+            'updated_by' => $this->state_updated_by
+        ];
+    }
+
+    /**
+     * Check if any of the active members is still waiting for data
+     *
+     * @return bool
+     */
+    public function hasBufferingMembers() {
+        return $this->members()
+            ->wherePivot('is_active', true)
+            ->wherePivot('is_buffering', true)
+            ->exists();
+    }
+
+    /**
+     * Resume the party if it was paused to wait for members who are now ready.
+     *
+     * @return bool Whether the party was resumed
+     */
+    public function resumeIfEveryoneIsReady() {
+        if (!$this->is_waiting || $this->hasBufferingMembers()) {
+            return false;
+        }
+
+        $this->fillState([
+            'is_playing' => true,
+            'is_waiting' => false
+        ])->save();
+
+        return true;
+    }
 }
@@ -16,6 +16,15 @@ class PartyLog extends Model
         'loggable_id'
     ];
 
+    /**
+     * The relationships that will always be eager-loaded
+     *
+     * @var array
+     */
+    protected $with = [
+        'reactions'
+    ];
+
     /**
      * The attributes that will always be included in the serialization
      *
@@ -24,7 +33,8 @@ class PartyLog extends Model
     protected $appends = [
         'type',
         'activity',
-        'message'
+        'message',
+        'quote'
     ];
 
     /**
@@ -42,11 +52,16 @@ class PartyLog extends Model
         return $this->belongsTo(Party::class);
     }
 
+    public function reactions() {
+        return $this->hasMany(PartyLogReaction::class)->orderBy('created_at', 'asc');
+    }
+
     /**
      * Get the polymorphic relationship
      * 
      * @return PartyActivity
      * @return PartyMessage
+     * @return PartyQuote
      */
     public function loggable() {
         return $this->morphTo();
@@ -58,8 +73,12 @@ class PartyLog extends Model
      * @return string
      */
     public function getTypeAttribute() {
-        return $this->loggable_type === 'App\\PartyActivity'
-            ? 'activity'
+        if ($this->loggable_type === 'App\\PartyActivity') {
+            return 'activity';
+        }
+
+        return $this->loggable_type === 'App\\PartyQuote'
+            ? 'quote'
             : 'message';
     }
 
@@ -85,4 +104,15 @@ class PartyLog extends Model
             ? $this->loggable
             : null;
     }
+
+    /**
+     * Fill the attribute property with the loggable data if it's a subtitle quote.
+     * 
+     * @return PartyQuote
+     */
+    public function getQuoteAttribute() {
+        return $this->loggable_type === 'App\\PartyQuote'
+            ? $this->loggable
+            : null;
+    }
 }
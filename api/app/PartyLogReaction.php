@@ -0,0 +1,43 @@
+<?php
+
+namespace App;
+
+use Illuminate\Database\Eloquent\Model;
+
+class PartyLogReaction extends Model
+{
+    /**
+     * The emojis members can react with; kept in sync with the pickers in the watch screen.
+     *
+     * @var array
+     */
+    const EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🔥'];
+
+    /**
+     * The attributes that are mass assignable.
+     *
+     * @var array
+     */
+    protected $fillable = [
+        'party_log_id',
+        'user_id',
+        'emoji'
+    ];
+
+    /**
+     * The relationships that will always be eager-loaded
+     *
+     * @var array
+     */
+    protected $with = [
+        'user'
+    ];
+
+    public function user() {
+        return $this->belongsTo(User::class);
+    }
+
+    public function log() {
+        return $this->belongsTo(PartyLog::class, 'party_log_id');
+    }
+}
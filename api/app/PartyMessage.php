@@ -16,7 +16,52 @@ class PartyMessage extends Model
     protected $fillable = [
         'user_id',
         'party_id',
-        'text'
+        'show_video_id',
+        'text',
+        'current_time',
+        'reply_to_id',
+        'client_id',
+        'edited_at',
+        'removed_at'
+    ];
+
+    /**
+     * The attributes that should be mutated to dates.
+     *
+     * @var array
+     */
+    protected $dates = [
+        'edited_at',
+        'removed_at'
+    ];
+
+    /**
+     * The attributes that should be cast to native types.
+     *
+     * @var array
+     */
+    protected $casts = [
+        'show_video_id' => 'integer',
+        'current_time' => 'float',
+        'reply_to_id' => 'integer'
+    ];
+
+    /**
+     * The attributes that will always be included in the serialization
+     *
+     * @var array
+     */
+    protected $appends = [
+        'reply_to'
+    ];
+
+    /**
+     * The attributes that should be hidden for arrays.
+     *
+     * @var array
+     */
+    protected $hidden = [
+        'replyLog'
     ];
 
     /**
@@ -25,14 +70,51 @@ class PartyMessage extends Model
      * @var array
      */
     protected $with = [
-        'user'
+        'user',
+        'video:id,title'
     ];
 
     public function user() {
         return $this->belongsTo(User::class);
     }
 
+    /**
+     * Only the title is needed to label the message, so we'll skip the subtitles.
+     */
+    public function video() {
+        return $this->belongsTo(ShowVideo::class, 'show_video_id')->without('subtitles');
+    }
+
     public function log() {
         return $this->morphOne(PartyLog::class, 'loggable');
     }
+
+    public function replyLog() {
+        return $this->belongsTo(PartyLog::class, 'reply_to_id')->without('reactions');
+    }
+
+    /**
+     * A preview of the message (or quote) being replied to. We don't include the whole log
+     * since it may be a reply itself, and we'd end up loading the entire thread.
+     *
+     * @return array|null
+     */
+    public function getReplyToAttribute() {
+        if ($this->reply_to_id === null || $this->replyLog === null) {
+            return null;
+        }
+
+        $loggable = $this->replyLog->loggable;
+
+        if ($loggable === null || $loggable->removed_at !== null) {
+            return null;
+        }
+
+        return [
+            'id' => $this->replyLog->id,
+            'type' => $this->replyLog->type,
+            'text' => $loggable->text,
+            'user' => $loggable->user
+        ];
+    }
 }
@@ -0,0 +1,50 @@
+<?php
+
+namespace App;
+
+use Illuminate\Database\Eloquent\Model;
+
+class PartyQuote extends Model
+{
+    public $table = 'party_log_quotes';
+
+    /**
+     * The attributes that are mass assignable.
+     *
+     * @var array
+     */
+    protected $fillable = [
+        'user_id',
+        'party_id',
+        'show_video_id',
+        'text',
+        'time'
+    ];
+
+    /**
+     * The attributes that should be cast to native types.
+     *
+     * @var array
+     */
+    protected $casts = [
+        'show_video_id' => 'integer',
+        'time' => 'float'
+    ];
+
+    /**
+     * The relationships that will always be eager-loaded
+     *
+     * @var array
+     */
+    protected $with = [
+        'user'
+    ];
+
+    public function user() {
+        return $this->belongsTo(User::class);
+    }
+
+    public function log() {
+        return $this->morphOne(PartyLog::class, 'loggable');
+    }
+}
@@ -6,6 +6,15 @@ use Illuminate\Database\Eloquent\Model;
 
 class ShowVideo extends Model
 {
+    /**
+     * The relationships that will always be eager-loaded
+     *
+     * @var array
+     */
+    protected $with = [
+        'subtitles'
+    ];
+
     public function show() {
         return $this->belongsTo(Show::class);
     }
@@ -13,4 +22,8 @@ class ShowVideo extends Model
     public function group() {
         return $this->belongsTo(ShowGroup::class, 'show_group_id');
     }
+
+    public function subtitles() {
+        return $this->hasMany(ShowVideoSubtitle::class);
+    }
 }
@@ -0,0 +1,24 @@
+<?php
+
+namespace App;
+
+use Illuminate\Database\Eloquent\Model;
+
+class ShowVideoSubtitle extends Model
+{
+    /**
+     * The attributes that are mass assignable.
+     *
+     * @var array
+     */
+    protected $fillable = [
+        'show_video_id',
+        'language',
+        'label',
+        'url'
+    ];
+
+    public function video() {
+        return $this->belongsTo(ShowVideo::class, 'show_video_id');
+    }
+}
@@ -18,6 +18,15 @@ class Helper {
     return implode('-', $strings);
   }
 
+  /**
+   * 1566316800123 (Unix timestamp with milliseconds)
+   *
+   * @return int
+   */
+  static public function getTimestampInMilliseconds() {
+    return (int) round(microtime(true) * 1000);
+  }
+
   /**
    * Gets the first matched regex pattern
    * 
@@ -184,4 +193,38 @@ class Helper {
   static public function getSeasonIndexFromTitle($title) {
     return preg_replace("/Season\s/", "", $title);
   }
-}
\ No newline at end of file
+
+  /*
+  |--------------------------------------------------------------------------
+  | Utility for subtitles
+  |--------------------------------------------------------------------------
+  |
+  */
+
+  /**
+   * https://cdn/videos/tarzan-x/tarzan-x-en.srt -> en
+   */
+  static public function getLanguageFromSubtitleUrl($url, $default = 'en') {
+    $filename = pathinfo(parse_url($url, PHP_URL_PATH), PATHINFO_FILENAME);
+    return preg_match("/-([a-z]{2,3})$/", $filename, $matches) ? $matches[1] : $default;
+  }
+
+  /**
+   * en -> English
+   */
+  static public function getLanguageLabel($language) {
+    $labels = [
+      'en' => 'English',
+      'fil' => 'Filipino',
+      'ja' => 'Japanese',
+      'ko' => 'Korean',
+      'zh' => 'Chinese',
+      'es' => 'Spanish',
+      'fr' => 'French',
+      'de' => 'German',
+      'id' => 'Indonesian'
+    ];
+
+    return $labels[$language] ?? strtoupper($language);
+  }
+}
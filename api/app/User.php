@@ -55,7 +55,7 @@ class User extends Authenticatable
     }
 
     public function parties() {
-        return $this->belongsToMany(Party::class)->withPivot('is_active', 'is_dismissed');
+        return $this->belongsToMany(Party::class)->withPivot('is_active', 'is_dismissed', 'role');
     }
 
     public function invitations() {
@@ -106,4 +106,25 @@ class User extends Authenticatable
     public function isMemberOfParty(Party $party) {
         return $party->members()->where('user_id', $this->id)->exists();
     }
+
+    /**
+     * $user->isHostOf($party);
+     */
+    public function isHostOf(Party $party) {
+        return $party->getRoleOf($this) === Party::ROLE_HOST;
+    }
+
+    /**
+     * Check if the user may play, pause, or seek the party's video
+     */
+    public function canControlPlaybackOf(Party $party) {
+        return $party->allows($this, $party->playback_control);
+    }
+
+    /**
+     * Check if the user may switch the party to another video
+     */
+    public function canChangeVideoOf(Party $party) {
+        return $party->allows($this, $party->video_control);
+    }
 }
@@ -0,0 +1,34 @@
+<?php
+
+use Illuminate\Support\Facades\Schema;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Database\Migrations\Migration;
+
+class AddWaitForEveryoneColumnsToPartiesTable extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * @return void
+     */
+    public function up()
+    {
+        Schema::table('parties', function (Blueprint $table) {
+            $table->boolean('wait_for_everyone')->nullable()->default(false);
+            $table->boolean('is_waiting')->nullable()->default(false);
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     *
+     * @return void
+     */
+    public function down()
+    {
+        Schema::table('parties', function (Blueprint $table) {
+            $table->dropColumn('wait_for_everyone');
+            $table->dropColumn('is_waiting');
+        });
+    }
+}
@@ -0,0 +1,42 @@
+<?php
+
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Schema;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Database\Migrations\Migration;
+
+class AddRoleColumnToPartyUserTable extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * @return void
+     */
+    public function up()
+    {
+        Schema::table('party_user', function (Blueprint $table) {
+            $table->string('role')->default('viewer');
+        });
+
+        // The first member of existing parties is the one who created it.
+        // MySQL doesn't let us update a table we're selecting from, so we'll grab the ids beforehand.
+        $hosts = DB::table('party_user')
+            ->selectRaw('min(id) as id')
+            ->groupBy('party_id')
+            ->pluck('id');
+
+        DB::table('party_user')->whereIn('id', $hosts)->update(['role' => 'host']);
+    }
+
+    /**
+     * Reverse the migrations.
+     *
+     * @return void
+     */
+    public function down()
+    {
+        Schema::table('party_user', function (Blueprint $table) {
+            $table->dropColumn('role');
+        });
+    }
+}
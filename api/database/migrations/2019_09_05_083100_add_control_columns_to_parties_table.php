@@ -0,0 +1,36 @@
+<?php
+
+use Illuminate\Support\Facades\Schema;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Database\Migrations\Migration;
+
+class AddControlColumnsToPartiesTable extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * @return void
+     */
+    public function up()
+    {
+        Schema::table('parties', function (Blueprint $table) {
+            // Who may play, pause, or seek (everyone, co-hosts, host)
+            $table->string('playback_control')->default('everyone');
+            // Who may switch to another video (everyone, co-hosts, host)
+            $table->string('video_control')->default('everyone');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     *
+     * @return void
+     */
+    public function down()
+    {
+        Schema::table('parties', function (Blueprint $table) {
+            $table->dropColumn('playback_control');
+            $table->dropColumn('video_control');
+        });
+    }
+}
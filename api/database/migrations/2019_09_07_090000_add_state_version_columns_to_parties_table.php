@@ -0,0 +1,36 @@
+<?php
+
+use Illuminate\Support\Facades\Schema;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Database\Migrations\Migration;
+
+class AddStateVersionColumnsToPartiesTable extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * @return void
+     */
+    public function up()
+    {
+        Schema::table('parties', function (Blueprint $table) {
+            // Incremented whenever the party is played, paused, or seeked
+            $table->unsignedInteger('state_version')->default(0);
+            // Who made the latest state change; null if the server did (e.g., waiting for everyone)
+            $table->unsignedBigInteger('state_updated_by')->nullable();
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     *
+     * @return void
+     */
+    public function down()
+    {
+        Schema::table('parties', function (Blueprint $table) {
+            $table->dropColumn('state_version');
+            $table->dropColumn('state_updated_by');
+        });
+    }
+}
@@ -0,0 +1,33 @@
+<?php
+
+use Illuminate\Support\Facades\Schema;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Database\Migrations\Migration;
+
+class AddStateSyncedAtColumnToPartiesTable extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * @return void
+     */
+    public function up()
+    {
+        Schema::table('parties', function (Blueprint $table) {
+            // When the party was at its `current_time` (Unix timestamp with milliseconds)
+            $table->unsignedBigInteger('state_synced_at')->nullable();
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     *
+     * @return void
+     */
+    public function down()
+    {
+        Schema::table('parties', function (Blueprint $table) {
+            $table->dropColumn('state_synced_at');
+        });
+    }
+}
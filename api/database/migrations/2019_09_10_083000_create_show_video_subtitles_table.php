@@ -0,0 +1,52 @@
+<?php
+
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Schema;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Database\Migrations\Migration;
+use App\Support\Helper;
+
+class CreateShowVideoSubtitlesTable extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * @return void
+     */
+    public function up()
+    {
+        Schema::create('show_video_subtitles', function (Blueprint $table) {
+            $table->bigIncrements('id');
+            $table->integer('show_video_id');
+            // ISO 639-1 code (e.g., en)
+            $table->string('language');
+            $table->string('label');
+            $table->string('url');
+            $table->timestamps();
+        });
+
+        // Existing subtitles were all named after their language (e.g., tarzan-x-en.srt)
+        DB::table('show_videos')->where('subtitle_url', '<>', '')->orderBy('id')->each(function($video) {
+            $language = Helper::getLanguageFromSubtitleUrl($video->subtitle_url);
+
+            DB::table('show_video_subtitles')->insert([
+                'show_video_id' => $video->id,
+                'language' => $language,
+                'label' => Helper::getLanguageLabel($language),
+                'url' => $video->subtitle_url,
+                'created_at' => now(),
+                'updated_at' => now()
+            ]);
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     *
+     * @return void
+     */
+    public function down()
+    {
+        Schema::dropIfExists('show_video_subtitles');
+    }
+}
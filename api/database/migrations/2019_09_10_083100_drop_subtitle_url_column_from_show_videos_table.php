@@ -0,0 +1,40 @@
+<?php
+
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Schema;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Database\Migrations\Migration;
+
+class DropSubtitleUrlColumnFromShowVideosTable extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * @return void
+     */
+    public function up()
+    {
+        Schema::table('show_videos', function (Blueprint $table) {
+            $table->dropColumn('subtitle_url');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     *
+     * @return void
+     */
+    public function down()
+    {
+        Schema::table('show_videos', function (Blueprint $table) {
+            $table->string('subtitle_url')->nullable();
+        });
+
+        // We can only keep one subtitle per video, so we'll keep the first one.
+        DB::table('show_video_subtitles')->orderBy('id', 'desc')->each(function($subtitle) {
+            DB::table('show_videos')
+                ->where('id', $subtitle->show_video_id)
+                ->update(['subtitle_url' => $subtitle->url]);
+        });
+    }
+}
@@ -0,0 +1,35 @@
+<?php
+
+use Illuminate\Support\Facades\Schema;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Database\Migrations\Migration;
+
+class AddVideoPositionColumnsToPartyLogMessagesTable extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * @return void
+     */
+    public function up()
+    {
+        Schema::table('party_log_messages', function (Blueprint $table) {
+            // Messages sent before this change don't have a position, so these stay nullable.
+            $table->integer('show_video_id')->nullable();
+            // Where the sender was in the video, in seconds
+            $table->float('current_time')->nullable();
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     *
+     * @return void
+     */
+    public function down()
+    {
+        Schema::table('party_log_messages', function (Blueprint $table) {
+            $table->dropColumn(['show_video_id', 'current_time']);
+        });
+    }
+}
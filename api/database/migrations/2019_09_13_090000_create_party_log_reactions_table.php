@@ -0,0 +1,36 @@
+<?php
+
+use Illuminate\Support\Facades\Schema;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Database\Migrations\Migration;
+
+class CreatePartyLogReactionsTable extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * @return void
+     */
+    public function up()
+    {
+        Schema::create('party_log_reactions', function (Blueprint $table) {
+            $table->bigIncrements('id');
+            $table->integer('party_log_id');
+            $table->integer('user_id');
+            $table->string('emoji', 16);
+            $table->timestamps();
+            // Members can use several emojis on the same log, but each one only once.
+            $table->unique(['party_log_id', 'user_id', 'emoji']);
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     *
+     * @return void
+     */
+    public function down()
+    {
+        Schema::dropIfExists('party_log_reactions');
+    }
+}
@@ -0,0 +1,34 @@
+<?php
+
+use Illuminate\Support\Facades\Schema;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Database\Migrations\Migration;
+
+class AddReplyToIdColumnToPartyLogMessagesTable extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * @return void
+     */
+    public function up()
+    {
+        Schema::table('party_log_messages', function (Blueprint $table) {
+            // The party log (message or quote) being replied to. We point to the log rather than
+            // the message so members can reply to quotes as well.
+            $table->integer('reply_to_id')->nullable();
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     *
+     * @return void
+     */
+    public function down()
+    {
+        Schema::table('party_log_messages', function (Blueprint $table) {
+            $table->dropColumn('reply_to_id');
+        });
+    }
+}
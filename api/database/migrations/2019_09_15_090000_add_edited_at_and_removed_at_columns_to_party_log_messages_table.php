@@ -0,0 +1,34 @@
+<?php
+
+use Illuminate\Support\Facades\Schema;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Database\Migrations\Migration;
+
+class AddEditedAtAndRemovedAtColumnsToPartyLogMessagesTable extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * @return void
+     */
+    public function up()
+    {
+        Schema::table('party_log_messages', function (Blueprint $table) {
+            $table->timestamp('edited_at')->nullable();
+            // Removed messages stay in the chat as "message removed", so we don't soft delete them.
+            $table->timestamp('removed_at')->nullable();
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     *
+     * @return void
+     */
+    public function down()
+    {
+        Schema::table('party_log_messages', function (Blueprint $table) {
+            $table->dropColumn(['edited_at', 'removed_at']);
+        });
+    }
+}
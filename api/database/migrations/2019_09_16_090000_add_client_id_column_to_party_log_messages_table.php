@@ -0,0 +1,36 @@
+<?php
+
+use Illuminate\Support\Facades\Schema;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Database\Migrations\Migration;
+
+class AddClientIdColumnToPartyLogMessagesTable extends Migration
+{
+    /**
+     * Run the migrations.
+     *
+     * @return void
+     */
+    public function up()
+    {
+        Schema::table('party_log_messages', function (Blueprint $table) {
+            // Generated by the sender so resending a message (e.g., after losing connection)
+            // doesn't post it twice. It's only unique per sender so nobody can collide with someone else's.
+            $table->string('client_id', 36)->nullable();
+            $table->unique(['party_id', 'user_id', 'client_id']);
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     *
+     * @return void
+     */
+    public function down()
+    {
+        Schema::table('party_log_messages', function (Blueprint $table) {
+            $table->dropUnique(['party_id', 'user_id', 'client_id']);
+            $table->dropColumn('client_id');
+        });
+    }
+}
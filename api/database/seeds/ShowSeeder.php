@@ -17,6 +17,7 @@ class ShowSeeder extends Seeder
         App\Show::truncate();
         App\ShowGroup::truncate();
         App\ShowVideo::truncate();
+        App\ShowVideoSubtitle::truncate();
 
         $faker = Faker::create();
 
@@ -2955,13 +2956,14 @@ class ShowSeeder extends Seeder
 
                 $this->command->info("[ShowSeeder]: Inserted {$show->title}");
 
-                App\ShowVideo::create([
+                $video = App\ShowVideo::create([
                     'show_id' => $show->id,
                     'video_url' => Helper::getVideoUrlFromMovieTitle($show->title, $movie['extension']),
-                    'subtitle_url' => $movie['subtitle_url'],
                     'duration' => $movie['duration'],
                     'synopsis' => $faker->text,
                 ]);
+
+                $this->createSubtitle($video, $movie['subtitle_url']);
             } else if ($movie['title_type'] === 'series') {
                 $show = App\Show::create(Arr::except($movie, ['seasons']));
 
@@ -2976,7 +2978,7 @@ class ShowSeeder extends Seeder
                     $season_index = Helper::getSeasonIndexFromTitle($group->title);
     
                     for($j = 0; $j < $season['episodes']; $j++) {
-                        App\ShowVideo::create([
+                        $video = App\ShowVideo::create([
                             'show_group_id' => $group->id,
                             'show_id' => $show->id,
                             'title' => 'Episode ' . ($j + 1),
@@ -2986,14 +2988,15 @@ class ShowSeeder extends Seeder
                                 'episode' => $j + 1,
                                 'extension' => $season['extension']
                             ]),
-                            'subtitle_url' => $season['subtitle_language'] ? Helper::getSubtitleUrlFromSeriesTitle([
-                                'title' => $show->title,
-                                'season' => $season_index,
-                                'episode' => $j + 1
-                            ], $season['subtitle_language']) : '',
                             'duration' => Helper::getDurationInSecondsFromReadableFormat($season['duration']),
                             'synopsis' => $faker->text,
                         ]);
+
+                        $this->createSubtitle($video, $season['subtitle_language'] ? Helper::getSubtitleUrlFromSeriesTitle([
+                            'title' => $show->title,
+                            'season' => $season_index,
+                            'episode' => $j + 1
+                        ], $season['subtitle_language']) : '');
                     }
                 }
             } else if ($movie['title_type'] === 'series:append-episodes') {
@@ -3008,7 +3011,7 @@ class ShowSeeder extends Seeder
                 foreach(range($start, $end) as $episode) {
                     $duration = $movie['duration'] ?? $group->videos()->firstOrFail()->duration;
 
-                    App\ShowVideo::create([
+                    $video = App\ShowVideo::create([
                         'show_group_id' => $group->id,
                         'show_id' => $show->id,
                         'title' => 'Episode ' . $episode,
@@ -3018,14 +3021,15 @@ class ShowSeeder extends Seeder
                             'episode' => $episode,
                             'extension' => 'mp4'
                         ]),
-                        'subtitle_url' => Helper::getSubtitleUrlFromSeriesTitle([
-                            'title' => $show->title,
-                            'season' => $season,
-                            'episode' => $episode
-                        ]),
                         'duration' => $duration,
                         'synopsis' => $show->synopsis,
                     ]);
+
+                    $this->createSubtitle($video, Helper::getSubtitleUrlFromSeriesTitle([
+                        'title' => $show->title,
+                        'season' => $season,
+                        'episode' => $episode
+                    ]));
                 }
 
                 if ($start === $end) {
@@ -3046,7 +3050,7 @@ class ShowSeeder extends Seeder
                 for($i = 0; $i < $movie['episodes']; $i++) {
                     $episode = $i + 1;
 
-                    App\ShowVideo::create([
+                    $video = App\ShowVideo::create([
                         'show_group_id' => $group->id,
                         'show_id' => $show->id,
                         'title' => 'Episode ' . $episode,
@@ -3056,18 +3060,37 @@ class ShowSeeder extends Seeder
                             'episode' => $episode,
                             'extension' => 'mp4'
                         ]),
-                        'subtitle_url' => Helper::getSubtitleUrlFromSeriesTitle([
-                            'title' => $show->title,
-                            'season' => $season,
-                            'episode' => $episode
-                        ]),
                         'duration' => $movie['duration'],
                         'synopsis' => $show->synopsis,
                     ]);
+
+                    $this->createSubtitle($video, Helper::getSubtitleUrlFromSeriesTitle([
+                        'title' => $show->title,
+                        'season' => $season,
+                        'episode' => $episode
+                    ]));
                 }
 
                 $this->command->info("[ShowSeeder]: Appended Season {$season} ({$group->count()} episodes) to {$show->title}");
             }
         }
     }
+
+    /**
+     * Videos without subtitles have an empty url
+     */
+    private function createSubtitle(App\ShowVideo $video, $url) {
+        if (empty($url)) {
+            return;
+        }
+
+        $language = Helper::getLanguageFromSubtitleUrl($url);
+
+        App\ShowVideoSubtitle::create([
+            'show_video_id' => $video->id,
+            'language' => $language,
+            'label' => Helper::getLanguageLabel($language),
+            'url' => $url
+        ]);
+    }
 }
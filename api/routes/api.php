@@ -14,11 +14,12 @@ use Illuminate\Http\Request;
 */
 
 Route::post('register', 'MeController@register');
+Route::get('time', 'ClockController@now');
 
 Route::middleware('auth:api')->group(function() {
     Route::get('shows', 'ShowsController@index');
     Route::get('shows/{show}/groups', 'ShowsController@groups');
-    Route::get('videos/{video}/subtitle', 'ShowsController@subtitle');
+    Route::get('videos/{video}/subtitles/{subtitle}', 'ShowsController@subtitle');
     Route::post('parties', 'PartiesController@store');
 
     Route::group(['middleware' => 'party.member'], function() {
@@ -26,6 +27,12 @@ Route::middleware('auth:api')->group(function() {
         Route::put('parties/{party}/state', 'PartiesController@state');
         Route::put('parties/{party}/change-video', 'PartiesController@changeVideo');
         Route::put('parties/{party}/time', 'PartiesController@time');
+        Route::put('parties/{party}/rate', 'PartiesController@rate');
+        Route::put('parties/{party}/settings', 'PartiesController@settings');
+        Route::put('parties/{party}/buffering', 'PartiesController@buffering');
+        Route::put('parties/{party}/offset', 'PartiesController@offset');
+        Route::post('parties/{party}/reactions', 'PartiesController@reaction');
+        Route::put('parties/{party}/members/{user}/role', 'PartyMembersController@role');
         Route::get('parties/{party}/invitations', 'PartyInvitationsController@index');
         Route::get('parties/{party}/invitations/search', 'PartyInvitationsController@search');
 
@@ -34,6 +41,11 @@ Route::middleware('auth:api')->group(function() {
         Route::get('parties/{party}/logs', 'PartyLogsController@index');
         Route::post('parties/{party}/logs/activity', 'PartyLogsController@activity');
         Route::post('parties/{party}/logs/message', 'PartyLogsController@message');
+        Route::post('parties/{party}/logs/quote', 'PartyLogsController@quote');
+        Route::put('parties/{party}/logs/{log}/message', 'PartyLogsController@edit');
+        Route::delete('parties/{party}/logs/{log}/message', 'PartyLogsController@remove');
+        Route::post('parties/{party}/logs/{log}/reactions', 'PartyLogsController@react');
+        Route::delete('parties/{party}/logs/{log}/reactions', 'PartyLogsController@unreact');
     });
 
     Route::group(['middleware' => 'party.invitation.recipient'], function() {
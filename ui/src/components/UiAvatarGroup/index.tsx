@@ -4,10 +4,13 @@ import cx from 'classnames'
 import UiAvatar from '~/components/UiAvatar'
 import UiPresenceAvatar from '~/components/UiPresenceAvatar'
 import { useAuth } from '~/contexts/Auth'
+import getSyncHealth from '~/utils/parties/getSyncHealth'
 
 interface Props {
   users?: AppUser[] | AppPartyMember[]
   size?: 'sm' | 'm' | 'l' | 'xl'
+  // How far each member is from the party position, in seconds (positive if ahead)
+  offsets?: { [id: string]: number }
 }
 
 function UiAvatarGroup(props: Props) {
@@ -28,6 +31,8 @@ function UiAvatarGroup(props: Props) {
           ) : (
             <UiAvatar user={user} />
           )}
+
+          {props.offsets && props.offsets[user.id] != null && renderOffset(props.offsets[user.id])}
         </div>
       ))}
 
@@ -40,4 +45,17 @@ function UiAvatarGroup(props: Props) {
   )
 }
 
+function renderOffset(offset: number) {
+  const health = getSyncHealth(offset)
+  // We'll round first so anything that shows as 0.0s doesn't get a sign.
+  const rounded = Math.round(offset * 10) / 10
+
+  return (
+    <div className={cx('offset', `is-${health.status}`)} title={health.text}>
+      {rounded > 0 ? '+' : rounded < 0 ? '-' : ''}
+      {Math.abs(rounded).toFixed(1)}s
+    </div>
+  )
+}
+
 export default UiAvatarGroup
@@ -0,0 +1,25 @@
+import useLocalStorage from 'react-use/lib/useLocalStorage'
+
+const defaults: AppSubtitleAppearance = {
+  fontScale: 1,
+  color: '#ffffff',
+  backgroundOpacity: 0,
+  outline: 'thin',
+  position: 0
+}
+
+/**
+ * The member's subtitle appearance settings
+ *
+ * @usage
+ * const [appearance, setAppearance] = useSubtitleAppearance()
+ * setAppearance({ ...appearance, fontScale: 1.5 })
+ */
+function useSubtitleAppearance(): [AppSubtitleAppearance, (appearance: AppSubtitleAppearance) => void] {
+  const [appearance, setAppearance] = useLocalStorage<AppSubtitleAppearance>('app.subtitle-appearance', defaults)
+
+  // Settings saved before a new option was added won't have it.
+  return [{ ...defaults, ...appearance }, setAppearance]
+}
+
+export { useSubtitleAppearance, defaults as defaultSubtitleAppearance, useSubtitleAppearance as default }
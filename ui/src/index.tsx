@@ -26,6 +26,7 @@ import AppSettings from '~/screens/app.settings'
 import AppSettingsProfile from '~/screens/app.settings-profile'
 import AppSettingsPassword from '~/screens/app.settings-password'
 import AppSettingsFaq from '~/screens/app.settings-faq'
+import AppSettingsSubtitles from '~/screens/app.settings-subtitles'
 import AppDownload from '~/screens/app.download'
 import Login from '~/screens/login'
 import Logout from '~/screens/logout'
@@ -60,6 +61,7 @@ function Mount() {
                               <PrivateRoute path="/settings/profile" exact component={AppSettingsProfile} />
                               <PrivateRoute path="/settings/password" exact component={AppSettingsPassword} />
                               <PrivateRoute path="/settings/faq" exact component={AppSettingsFaq} />
+                              <PrivateRoute path="/settings/subtitles" exact component={AppSettingsSubtitles} />
                               <PrivateRoute
                                 path="/watch/:partyId"
                                 render={matchProps => (
@@ -0,0 +1,69 @@
+import axios from '~/lib/axios'
+
+interface Sample {
+  offset: number
+  roundTrip: number
+}
+
+// More samples gives us a better chance at a quick (and accurate) round trip.
+const SAMPLE_COUNT = 5
+
+// How far the server clock is ahead (positive) or behind (negative) ours, in ms.
+let offset: number = 0
+
+/**
+ * Estimates the offset between our clock and the server clock (NTP-style).
+ *
+ * For each round trip, we'll assume the server stamped the response halfway through.
+ * The sample with the shortest round trip is the least affected by network jitter, so that's what we'll keep.
+ *
+ * @usage
+ * await clock.sync()
+ * clock.toLocalTime(event.state.timestamp)
+ */
+function clock() {
+  return offset
+}
+
+clock.sync = async function(): Promise<void> {
+  const samples: Sample[] = []
+
+  for (let i = 0; i < SAMPLE_COUNT; i++) {
+    const sent = Date.now()
+
+    const [err, res] = await axios.get('/api/time')
+
+    if (err != null) {
+      continue
+    }
+
+    const received = Date.now()
+
+    samples.push({
+      offset: res.data.timestamp - (sent + received) / 2,
+      roundTrip: received - sent
+    })
+  }
+
+  if (!samples.length) {
+    return
+  }
+
+  offset = samples.reduce((best, sample) => (sample.roundTrip < best.roundTrip ? sample : best)).offset
+}
+
+/**
+ * Get the current server time (epoch in ms)
+ */
+clock.now = function(): number {
+  return Date.now() + offset
+}
+
+/**
+ * Convert a server timestamp (epoch in ms) to our own clock
+ */
+clock.toLocalTime = function(timestamp: number): number {
+  return timestamp - offset
+}
+
+export default clock
@@ -0,0 +1,303 @@
+import fromReadableTime from '~/utils/date/fromReadableTime'
+import { SubtitleCue, SubtitleSegment, SubtitleTextStyle } from './types'
+
+interface Style {
+  textStyle: SubtitleTextStyle
+  fontSize: number
+  alignment: number
+}
+
+interface Script {
+  // The resolution positions (\pos) and sizes are relative to (PlayResX, PlayResY)
+  width: number
+  height: number
+  styles: { [name: string]: Style }
+  // The default style's size; other sizes are scaled against this.
+  fontSize: number
+}
+
+interface Fields {
+  [name: string]: string
+}
+
+interface ParsedText {
+  segments: SubtitleSegment[]
+  alignment: number
+  position?: { x: number; y: number }
+}
+
+// Used by renderers when the script doesn't specify its resolution
+const DEFAULT_WIDTH = 384
+const DEFAULT_HEIGHT = 288
+
+const DEFAULT_STYLE: Style = {
+  textStyle: {},
+  fontSize: 20,
+  alignment: 2
+}
+
+// \fnArial, \an8, \pos(10,20), \1c&HFFFFFF&
+const TAG_PATTERN = /\\(fn|\d?[a-z]+)(\([^)]*\)|[^\\]*)/gi
+
+/**
+ * Parse Advanced SubStation Alpha (and the older SubStation Alpha) subtitles.
+ * We support styles, colors, bold/italic/underline/strikeout, font sizes, alignment, and positioning.
+ * Animations (\move, \t, \fad, karaoke) are rendered in their starting state; drawings are skipped.
+ *
+ * [Script Info]
+ * PlayResX: 1920
+ *
+ * [V4+ Styles]
+ * Format: Name, Fontname, Fontsize, PrimaryColour, ...
+ * Style: Default,Arial,48,&H00FFFFFF,...
+ *
+ * [Events]
+ * Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+ * Dialogue: 0,0:00:03.30,0:00:04.00,Default,,0,0,0,,{\an8\i1}Hello{\i0} there
+ */
+export default function parseAss(text: string): SubtitleCue[] {
+  const info: Fields = {}
+  const styles: Fields[] = []
+  const dialogues: Fields[] = []
+
+  let section = ''
+  let format: string[] = []
+
+  text
+    .replace(/^\uFEFF/, '')
+    .split(/\r\n?|\n/)
+    .forEach(raw => {
+      const line = raw.trim()
+
+      // Comments start with a semicolon
+      if (line === '' || line.startsWith(';')) {
+        return
+      }
+
+      const header = line.match(/^\[(.+)\]$/)
+
+      if (header) {
+        section = header[1].toLowerCase()
+        format = []
+        return
+      }
+
+      const separator = line.indexOf(':')
+
+      if (separator === -1) {
+        return
+      }
+
+      const key = line.slice(0, separator).trim()
+      const value = line.slice(separator + 1).trim()
+
+      if (section === 'script info') {
+        info[key] = value
+      } else if (key === 'Format') {
+        format = value.split(',').map(name => name.trim())
+      } else if (section.endsWith('styles') && key === 'Style') {
+        styles.push({ ...getFields(format, value), section })
+      } else if (section === 'events' && key === 'Dialogue') {
+        dialogues.push(getFields(format, value))
+      }
+    })
+
+  const script = getScript(info, styles)
+
+  const cues: SubtitleCue[] = []
+
+  dialogues.forEach((fields, i) => {
+    const style = script.styles[(fields.Style || '').replace(/^\*/, '')] || script.styles.Default || DEFAULT_STYLE
+    const parsed = parseText(fields.Text || '', style, script)
+    const text = parsed.segments.map(segment => segment.text).join('')
+
+    // Nothing to show (e.g., drawings or blank lines used for effects)
+    if (text.trim() === '') {
+      return
+    }
+
+    cues.push({
+      id: String(i + 1),
+      start: fromReadableTime(fields.Start),
+      end: fromReadableTime(fields.End),
+      text,
+      settings: {},
+      alignment: parsed.alignment,
+      position: parsed.position,
+      layer: Number(fields.Layer) || 0,
+      segments: parsed.segments
+    })
+  })
+
+  return cues
+}
+
+/**
+ * The last field (Text) may contain commas, so we'll only split as many as the format has.
+ */
+function getFields(format: string[], value: string): Fields {
+  const values = value.split(',')
+
+  return format.reduce((fields: Fields, name, i) => {
+    fields[name] = i === format.length - 1 ? values.slice(i).join(',') : (values[i] || '').trim()
+    return fields
+  }, {})
+}
+
+function getScript(info: Fields, fields: Fields[]): Script {
+  const styles: { [name: string]: Style } = {}
+
+  fields.forEach(style => {
+    styles[style.Name] = getStyle(style)
+  })
+
+  const base = styles.Default || styles[Object.keys(styles)[0]] || DEFAULT_STYLE
+
+  return {
+    width: Number(info.PlayResX) || DEFAULT_WIDTH,
+    height: Number(info.PlayResY) || DEFAULT_HEIGHT,
+    styles,
+    fontSize: base.fontSize
+  }
+}
+
+function getStyle(fields: Fields): Style {
+  // SSA ([V4 Styles]) uses a different alignment numbering than ASS ([V4+ Styles])
+  const isLegacy = fields.section === 'v4 styles'
+  const alignment = Number(fields.Alignment) || 2
+
+  return {
+    fontSize: Number(fields.Fontsize) || DEFAULT_STYLE.fontSize,
+    alignment: isLegacy ? fromLegacyAlignment(alignment) : alignment,
+    textStyle: {
+      fontFamily: fields.Fontname,
+      color: toCssColor(fields.PrimaryColour),
+      outlineColor: toCssColor(fields.OutlineColour),
+      isBold: isEnabled(fields.Bold),
+      isItalic: isEnabled(fields.Italic),
+      isUnderline: isEnabled(fields.Underline),
+      isStrikeOut: isEnabled(fields.StrikeOut)
+    }
+  }
+}
+
+/**
+ * Split the text into segments, applying override tags as we go.
+ * "{\i1}Hello{\i0} there" -> ['{\i1}', 'Hello', '{\i0}', ' there']
+ */
+function parseText(text: string, style: Style, script: Script): ParsedText {
+  const base: SubtitleTextStyle = { ...style.textStyle, fontScale: style.fontSize / script.fontSize }
+
+  const result: ParsedText = {
+    segments: [],
+    alignment: style.alignment
+  }
+
+  let current = base
+  let isDrawing = false
+
+  text.split(/({[^}]*})/).forEach(part => {
+    if (part.startsWith('{')) {
+      let match: RegExpExecArray | null
+
+      TAG_PATTERN.lastIndex = 0
+
+      // Blocks without tags are comments, so nothing will happen.
+      while ((match = TAG_PATTERN.exec(part.slice(1, -1))) != null) {
+        const [, name, value] = match
+        const tag = name.toLowerCase()
+
+        // \r resets to the line's style, or to another style (\rAlternate)
+        if (tag.startsWith('r') && !/^\d/.test(tag)) {
+          const reset = script.styles[name.slice(1) + value]
+          current = reset ? { ...reset.textStyle, fontScale: reset.fontSize / script.fontSize } : base
+        } else if (tag === 'b') {
+          current = { ...current, isBold: value === '' ? base.isBold : value === '1' || Number(value) >= 600 }
+        } else if (tag === 'i') {
+          current = { ...current, isItalic: value === '' ? base.isItalic : value === '1' }
+        } else if (tag === 'u') {
+          current = { ...current, isUnderline: value === '' ? base.isUnderline : value === '1' }
+        } else if (tag === 's') {
+          current = { ...current, isStrikeOut: value === '' ? base.isStrikeOut : value === '1' }
+        } else if (tag === 'c' || tag === '1c') {
+          current = { ...current, color: toCssColor(value) || base.color }
+        } else if (tag === '3c') {
+          current = { ...current, outlineColor: toCssColor(value) || base.outlineColor }
+        } else if (tag === 'fs') {
+          current = { ...current, fontScale: value === '' ? base.fontScale : Number(value) / script.fontSize }
+        } else if (tag === 'fn') {
+          current = { ...current, fontFamily: value || base.fontFamily }
+        } else if (tag === 'an') {
+          result.alignment = Number(value) || style.alignment
+        } else if (tag === 'a') {
+          result.alignment = fromLegacyAlignment(Number(value)) || style.alignment
+        } else if (tag === 'pos' || tag === 'move') {
+          // We don't animate, so moving lines stay where they start.
+          const [x, y] = value.replace(/[()]/g, '').split(',').map(Number)
+          result.position = { x: (x / script.width) * 100, y: (y / script.height) * 100 }
+        } else if (tag === 'p') {
+          isDrawing = Number(value) > 0
+        }
+      }
+
+      return
+    }
+
+    if (part === '' || isDrawing) {
+      return
+    }
+
+    result.segments.push({
+      // \N is a hard line break; \n only breaks with a specific wrapping style, so we'll treat it as a space.
+      text: part.replace(/\\N/g, '\n').replace(/\\n/g, ' ').replace(/\\h/g, '\u00a0'),
+      style: current
+    })
+  })
+
+  return result
+}
+
+/**
+ * SSA alignment: 1-3 for bottom, +4 for top, +8 for middle -> numpad
+ */
+function fromLegacyAlignment(alignment: number): number {
+  if (alignment >= 9) {
+    return alignment - 5
+  }
+
+  if (alignment >= 5) {
+    return alignment + 2
+  }
+
+  return alignment
+}
+
+/**
+ * ASS colors are &HAABBGGRR (with transparency instead of opacity); SSA may use plain numbers.
+ * &H00FFFFFF -> rgba(255, 255, 255, 1)
+ */
+function toCssColor(value?: string): string | undefined {
+  if (!value) {
+    return undefined
+  }
+
+  const color = /^&H/i.test(value) ? parseInt(value.replace(/[&H]/gi, ''), 16) : parseInt(value, 10)
+
+  if (isNaN(color)) {
+    return undefined
+  }
+
+  const r = color & 0xff
+  const g = (color >>> 8) & 0xff
+  const b = (color >>> 16) & 0xff
+  const a = 1 - ((color >>> 24) & 0xff) / 255
+
+  return `rgba(${r}, ${g}, ${b}, ${Number(a.toFixed(2))})`
+}
+
+/**
+ * Style flags are -1 (true) and 0 (false)
+ */
+function isEnabled(value?: string): boolean {
+  return value != null && value !== '' && Number(value) !== 0
+}
@@ -0,0 +1,62 @@
+import createCueIndex from './createCueIndex'
+import { SubtitleCue } from './types'
+
+/**
+ * Timing benchmark, kept out of `npm test` since it depends on how busy the machine is.
+ * Run it with `npm run bench`.
+ */
+
+function cue(id: string, start: number, end: number): SubtitleCue {
+  return { id, start, end, text: id, settings: {} }
+}
+
+// Two-second cues one after another, plus a sign that shows for the whole video
+function createCues(count: number): SubtitleCue[] {
+  const cues = [cue('sign', 0, count * 2)]
+
+  for (let i = 0; i < count; i++) {
+    cues.push(cue(String(i), i * 2, i * 2 + 1.5))
+  }
+
+  return cues
+}
+
+// Average time of a lookup after seeking to random times, in milliseconds
+function measureSeeks(count: number): number {
+  const index = createCueIndex(createCues(count))
+  const times: number[] = []
+
+  for (let i = 0; i < 5000; i++) {
+    times.push(Math.random() * count * 2)
+  }
+
+  // We'll take the fastest of a few runs to leave out hiccups (e.g., garbage collection).
+  let fastest = Infinity
+
+  for (let run = 0; run < 5; run++) {
+    const started = process.hrtime()
+
+    // Going back in time always searches instead of moving on from the previous lookup.
+    times.forEach(time => {
+      index.getActiveCues(-1)
+      index.getActiveCues(time)
+    })
+
+    const [seconds, nanoseconds] = process.hrtime(started)
+    fastest = Math.min(fastest, (seconds * 1e3 + nanoseconds / 1e6) / times.length)
+  }
+
+  return fastest
+}
+
+describe('createCueIndex', () => {
+  it('keeps the lookup time flat from 1k to 100k cues', () => {
+    measureSeeks(1000)
+
+    const small = measureSeeks(1000)
+    const large = measureSeeks(100000)
+
+    // A tree lookup grows with log(n) (about 1.7x here); going through every earlier cue would be 100x.
+    expect(large / small).toBeLessThan(10)
+  })
+})
@@ -0,0 +1,100 @@
+import createCueIndex from './createCueIndex'
+import { SubtitleCue } from './types'
+
+function cue(id: string, start: number, end: number): SubtitleCue {
+  return { id, start, end, text: id, settings: {} }
+}
+
+/**
+ * Two-second cues one after another, plus a sign that shows for the whole video (common in ASS files)
+ */
+function createCues(count: number): SubtitleCue[] {
+  const cues = [cue('sign', 0, count * 2)]
+
+  for (let i = 0; i < count; i++) {
+    cues.push(cue(String(i), i * 2, i * 2 + 1.5))
+  }
+
+  return cues
+}
+
+// Cues that start at the same time are in the index's order.
+function getActiveCuesByFiltering(cues: SubtitleCue[], time: number): SubtitleCue[] {
+  return cues.filter(cue => cue.start <= time && cue.end >= time)
+}
+
+// How many times a lookup looks at a cue's start or end, on average, after seeking around the video
+function countCueReads(count: number): number {
+  let reads = 0
+
+  const cues = createCues(count).map(
+    cue =>
+      new Proxy(cue, {
+        get(target, key) {
+          if (key === 'start' || key === 'end') {
+            reads++
+          }
+
+          return Reflect.get(target, key)
+        }
+      })
+  )
+
+  const index = createCueIndex(cues)
+  const lookups = 1000
+
+  // We're only counting lookups, not sorting the cues.
+  reads = 0
+
+  for (let i = 0; i < lookups; i++) {
+    // Going back in time always searches instead of moving on from the previous lookup.
+    index.getActiveCues(-1)
+    index.getActiveCues(((i * 7919) % count) * 2 + 0.5)
+  }
+
+  return reads / lookups
+}
+
+describe('createCueIndex', () => {
+  it('finds the cues showing at any time, in order', () => {
+    const cues = [
+      cue('a', 0, 10),
+      cue('b', 1, 2),
+      cue('c', 1.5, 4),
+      cue('d', 5, 6),
+      cue('e', 5, 12),
+      cue('f', 11, 11.5)
+    ]
+
+    const index = createCueIndex(cues.slice().reverse())
+    const times = [-1, 0, 1.75, 3, 4.5, 5, 9, 11.25, 20, 1.5, 0.5, 12]
+
+    times.forEach(time => {
+      expect(index.getActiveCues(time)).toEqual(getActiveCuesByFiltering(index.cues, time))
+    })
+  })
+
+  it('finds the cues while playing and after seeking', () => {
+    const cues = createCues(500)
+    const index = createCueIndex(cues)
+
+    // Playing from the start, then seeking back and forth
+    const times = [0, 0.5, 1, 1.6, 2, 2.25, 3.75, 4, 600, 600.1, 12, 999.9, 1000, 1001, 0]
+
+    times.forEach(time => {
+      expect(index.getActiveCues(time)).toEqual(getActiveCuesByFiltering(index.cues, time))
+    })
+  })
+
+  it('handles no cues', () => {
+    expect(createCueIndex([]).getActiveCues(5)).toEqual([])
+  })
+
+  it('keeps the lookup cost flat from 1k to 100k cues', () => {
+    const small = countCueReads(1000)
+    const large = countCueReads(100000)
+
+    // A lookup grows with log(n) (about 1.7x here); going through every earlier cue would be 100x.
+    expect(large / small).toBeLessThan(2)
+  })
+})
@@ -0,0 +1,130 @@
+import { SubtitleCue } from './types'
+
+export interface SubtitleCueIndex {
+  // Sorted by start time
+  cues: SubtitleCue[]
+  getActiveCues: (time: number) => SubtitleCue[]
+}
+
+// Past this many cues, skipping ahead one by one is slower than a binary search (e.g., after a seek).
+const MAX_CURSOR_STEPS = 16
+
+/**
+ * Index the cues so we can find the ones showing at any time without going through the whole file.
+ *
+ * While the video plays, the time only moves forward a little, so we'll keep the active cues from the previous
+ * lookup: drop the ones that ended, and add the ones that started since. After a seek, we'll binary search for
+ * the last cue that has started, then go through a tree of the latest end times to skip any run of earlier cues
+ * that have all ended. This stays fast even with cues that span the whole video (e.g., ASS sign tracks).
+ *
+ * @usage
+ * const index = createCueIndex(cues)
+ * index.getActiveCues(video.currentTime)
+ */
+export default function createCueIndex(unsorted: SubtitleCue[]): SubtitleCueIndex {
+  const cues = unsorted.slice().sort((a, b) => a.start - b.start)
+
+  // Segment tree of the latest end time: the root (1) covers every cue, and node n's children are 2n and 2n + 1.
+  // The cues themselves are the leaves, starting at `leaves`.
+  let leaves = 1
+
+  while (leaves < cues.length) {
+    leaves *= 2
+  }
+
+  const ends: number[] = new Array(leaves * 2).fill(-Infinity)
+
+  cues.forEach((cue, i) => {
+    ends[leaves + i] = cue.end
+  })
+
+  for (let node = leaves - 1; node > 0; node--) {
+    ends[node] = Math.max(ends[node * 2], ends[node * 2 + 1])
+  }
+
+  // Number of cues that have started as of the last lookup
+  let cursor = 0
+  let previous = { time: -Infinity, active: [] as SubtitleCue[] }
+
+  // Get the number of cues that have started by the time
+  function search(time: number): number {
+    let low = 0
+    let high = cues.length
+
+    while (low < high) {
+      const middle = (low + high) >>> 1
+
+      if (cues[middle].start <= time) {
+        low = middle + 1
+      } else {
+        high = middle
+      }
+    }
+
+    return low
+  }
+
+  // Add the cues among cues[low..high) that have started and are still showing, in order
+  function visit(node: number, low: number, high: number, time: number, active: SubtitleCue[]) {
+    if (low >= cursor || ends[node] < time) {
+      return
+    }
+
+    if (high - low === 1) {
+      active.push(cues[low])
+      return
+    }
+
+    const middle = (low + high) >>> 1
+
+    visit(node * 2, low, middle, time, active)
+    visit(node * 2 + 1, middle, high, time, active)
+  }
+
+  function collect(time: number): SubtitleCue[] {
+    cursor = search(time)
+
+    const active: SubtitleCue[] = []
+
+    visit(1, 0, leaves, time, active)
+
+    return active
+  }
+
+  function advance(time: number): SubtitleCue[] {
+    const active = previous.active.filter(cue => cue.end >= time)
+
+    for (let steps = 0; cursor < cues.length && cues[cursor].start <= time; steps++) {
+      // We skipped too far ahead (e.g., someone seeked forward); searching is faster.
+      if (steps === MAX_CURSOR_STEPS) {
+        return collect(time)
+      }
+
+      if (cues[cursor].end >= time) {
+        active.push(cues[cursor])
+      }
+
+      cursor++
+    }
+
+    return active
+  }
+
+  function getActiveCues(time: number): SubtitleCue[] {
+    const active = time >= previous.time ? advance(time) : collect(time)
+
+    // Keep the same array while nothing changes so components can skip rerendering.
+    if (active.length === previous.active.length && active.every((cue, i) => cue === previous.active[i])) {
+      previous = { time, active: previous.active }
+    } else {
+      previous = { time, active }
+    }
+
+    return previous.active
+  }
+
+  return {
+    cues,
+    getActiveCues
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Split a subtitle file into its blank line-separated blocks, each as a list of lines
+ */
+export default function getBlocks(text: string): string[][] {
+  return text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n[ \t]*\n/)
+    .map(block => block.split('\n').filter(line => line.trim() !== ''))
+    .filter(lines => lines.length > 0)
+}
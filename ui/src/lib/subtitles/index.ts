@@ -0,0 +1,47 @@
+import parseSrt from './srt'
+import parseVtt from './vtt'
+import parseAss from './ass'
+import { SubtitleCue, SubtitleFormat } from './types'
+
+export * from './types'
+
+/**
+ * Guess the format from the file extension, then from the content.
+ */
+function getFormat(text: string, url: string = ''): SubtitleFormat {
+  const extension = url.split(/[?#]/)[0].split('.').pop().toLowerCase()
+
+  if (extension === 'vtt' || extension === 'srt') {
+    return extension
+  }
+
+  if (extension === 'ass' || extension === 'ssa') {
+    return 'ass'
+  }
+
+  if (/^\uFEFF?WEBVTT/.test(text)) {
+    return 'vtt'
+  }
+
+  return /^\uFEFF?\s*\[Script Info\]/i.test(text) ? 'ass' : 'srt'
+}
+
+/**
+ * Parse subtitles regardless of the format.
+ *
+ * @usage
+ * subtitles(res.data.subtitle, subtitle.url)
+ */
+function subtitles(text: string, url?: string): SubtitleCue[] {
+  const format = getFormat(text, url)
+
+  if (format === 'vtt') {
+    return parseVtt(text)
+  }
+
+  return format === 'ass' ? parseAss(text) : parseSrt(text)
+}
+
+subtitles.getFormat = getFormat
+
+export default subtitles
@@ -0,0 +1,124 @@
+import parseMarkup, { toPlainText } from './markup'
+import { SubtitleMarkupNode } from './types'
+
+function hasElements(nodes: SubtitleMarkupNode[]): boolean {
+  return nodes.some(node => node.type !== 'text')
+}
+
+describe('parseMarkup', () => {
+  it('keeps formatting tags', () => {
+    expect(parseMarkup('<i>Hello</i> there')).toEqual([
+      { type: 'i', color: undefined, children: [{ type: 'text', text: 'Hello' }] },
+      { type: 'text', text: ' there' }
+    ])
+  })
+
+  it('shows <script> as text', () => {
+    const nodes = parseMarkup('<script>alert(1)</script>')
+
+    expect(hasElements(nodes)).toBe(false)
+    expect(toPlainText('<script>alert(1)</script>')).toBe('<script>alert(1)</script>')
+  })
+
+  it('shows <img onerror> as text', () => {
+    const text = '<img src=x onerror="alert(1)">Hello'
+
+    expect(hasElements(parseMarkup(text))).toBe(false)
+    expect(toPlainText(text)).toBe(text)
+  })
+
+  it('nests tags', () => {
+    expect(parseMarkup('<b><i>bold italic</i> bold</b>')).toEqual([
+      {
+        type: 'b',
+        color: undefined,
+        children: [
+          { type: 'i', color: undefined, children: [{ type: 'text', text: 'bold italic' }] },
+          { type: 'text', text: ' bold' }
+        ]
+      }
+    ])
+  })
+
+  it('closes tags left open at the end of the cue', () => {
+    expect(parseMarkup('<i>Hello')).toEqual([
+      { type: 'i', color: undefined, children: [{ type: 'text', text: 'Hello' }] }
+    ])
+  })
+
+  it('closes tags opened inside a closed tag', () => {
+    expect(parseMarkup('<b>one <i>two</b> three')).toEqual([
+      {
+        type: 'b',
+        color: undefined,
+        children: [
+          { type: 'text', text: 'one ' },
+          { type: 'i', color: undefined, children: [{ type: 'text', text: 'two' }] }
+        ]
+      },
+      { type: 'text', text: ' three' }
+    ])
+  })
+
+  it('drops stray closing tags', () => {
+    expect(parseMarkup('</i>Hello</b>')).toEqual([{ type: 'text', text: 'Hello' }])
+  })
+
+  it('keeps safe font colors', () => {
+    expect(parseMarkup('<font color="#ff0000">Red</font>')).toEqual([
+      { type: 'font', color: '#ff0000', children: [{ type: 'text', text: 'Red' }] }
+    ])
+  })
+
+  it('drops javascript: font colors', () => {
+    const [font] = parseMarkup('<font color="javascript:alert(1)">Hello</font>')
+
+    expect(font).toEqual({ type: 'font', color: undefined, children: [{ type: 'text', text: 'Hello' }] })
+  })
+
+  it('drops font colors that break out of the attribute', () => {
+    const [font] = parseMarkup('<font color="red;background:url(x)">Hello</font>')
+
+    expect(font.type === 'font' && font.color).toBe(undefined)
+  })
+
+  it('decodes entities', () => {
+    expect(toPlainText('Tom &amp; Jerry&#39;s &#x27;show&#x27;&nbsp;&quot;')).toBe("Tom & Jerry's 'show'\u00a0\"")
+  })
+
+  it('keeps encoded tags as text', () => {
+    const nodes = parseMarkup('&lt;i&gt;Hello&lt;/i&gt;')
+
+    expect(hasElements(nodes)).toBe(false)
+    expect(toPlainText('&lt;i&gt;Hello&lt;/i&gt;')).toBe('<i>Hello</i>')
+  })
+
+  it('leaves unknown and invalid entities alone', () => {
+    expect(toPlainText('&foo; &#0; &#x110000;')).toBe('&foo; &#0; &#x110000;')
+  })
+
+  it('keeps line breaks in cues with several lines', () => {
+    expect(parseMarkup('<i>Line one\nline two</i>\nLine three')).toEqual([
+      { type: 'i', color: undefined, children: [{ type: 'text', text: 'Line one\nline two' }] },
+      { type: 'text', text: '\nLine three' }
+    ])
+  })
+
+  it('keeps tags across lines', () => {
+    expect(parseMarkup('<i>one\n<b>two</b>\nthree</i>')).toEqual([
+      {
+        type: 'i',
+        color: undefined,
+        children: [
+          { type: 'text', text: 'one\n' },
+          { type: 'b', color: undefined, children: [{ type: 'text', text: 'two' }] },
+          { type: 'text', text: '\nthree' }
+        ]
+      }
+    ])
+  })
+
+  it('unwraps WebVTT tags it does not style', () => {
+    expect(toPlainText('<v Alex><c.yellow>Hi</c></v>\n<lang en>there</lang>')).toBe('Hi\nthere')
+  })
+})
@@ -0,0 +1,128 @@
+import { SubtitleMarkupNode, SubtitleMarkupElement } from './types'
+
+// <i>, </b>, <font color="#fff">, <c.yellow>
+const TAG_PATTERN = /<(\/?)([a-z]+)((?:[\s.][^<>]*)?)>/gi
+const COLOR_ATTRIBUTE_PATTERN = /color\s*=\s*["']?([^"'\s>]+)/i
+// #fff, #ffffff, yellow
+const SAFE_COLOR_PATTERN = /^(#[0-9a-f]{3,8}|[a-z]+)$/i
+
+const FORMATTING_TAGS = ['i', 'b', 'u', 'font']
+// WebVTT tags we don't style but shouldn't show either (classes, voices, languages, ruby)
+const UNWRAPPED_TAGS = ['c', 'v', 'lang', 'ruby', 'rt', 'span']
+
+const entities: { [entity: string]: string } = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+  lrm: '\u200e',
+  rlm: '\u200f'
+}
+
+/**
+ * Turn a cue's text into a tree of formatting tags and text. Only the tags subtitle files actually use
+ * are kept; anything else (e.g., <script>) stays as plain text so it's shown instead of run.
+ *
+ * @usage
+ * parseMarkup('<i>Hello</i>\nthere') -> [{ type: 'i', children: [{ type: 'text', text: 'Hello' }] }, { type: 'text', text: '\nthere' }]
+ */
+export default function parseMarkup(text: string): SubtitleMarkupNode[] {
+  const root: SubtitleMarkupElement = { type: 'font', children: [] }
+  const stack: SubtitleMarkupElement[] = [root]
+
+  let index = 0
+  let match: RegExpExecArray | null
+
+  function append(text: string) {
+    if (text === '') {
+      return
+    }
+
+    stack[stack.length - 1].children.push({ type: 'text', text: decodeEntities(text) })
+  }
+
+  TAG_PATTERN.lastIndex = 0
+
+  while ((match = TAG_PATTERN.exec(text)) != null) {
+    const [tag, slash, rawName, attributes] = match
+    const name = rawName.toLowerCase()
+
+    if (FORMATTING_TAGS.includes(name)) {
+      append(text.slice(index, match.index))
+
+      if (slash) {
+        close(stack, name)
+      } else {
+        const element: SubtitleMarkupElement = {
+          type: name as SubtitleMarkupElement['type'],
+          color: name === 'font' ? getColor(attributes) : undefined,
+          children: []
+        }
+
+        stack[stack.length - 1].children.push(element)
+        stack.push(element)
+      }
+    } else if (UNWRAPPED_TAGS.includes(name)) {
+      append(text.slice(index, match.index))
+    } else {
+      // Not a tag we know, so it's left as text.
+      append(text.slice(index, match.index) + tag)
+    }
+
+    index = match.index + tag.length
+  }
+
+  append(text.slice(index))
+
+  // Tags left open are closed at the end of the cue.
+  return root.children
+}
+
+/**
+ * Get the text without any formatting (e.g., for searching)
+ *
+ * @usage
+ * toPlainText('<i>Hello</i> there') -> 'Hello there'
+ */
+export function toPlainText(text: string): string {
+  return getText(parseMarkup(text))
+}
+
+function getText(nodes: SubtitleMarkupNode[]): string {
+  return nodes.map(node => (node.type === 'text' ? node.text : getText(node.children))).join('')
+}
+
+/**
+ * Close the innermost open tag with the name, along with anything opened inside it.
+ * Stray closing tags (</i> without <i>) are dropped.
+ */
+function close(stack: SubtitleMarkupElement[], name: string) {
+  for (let i = stack.length - 1; i > 0; i--) {
+    if (stack[i].type === name) {
+      stack.splice(i)
+      return
+    }
+  }
+}
+
+function getColor(attributes: string): string | undefined {
+  const match = attributes.match(COLOR_ATTRIBUTE_PATTERN)
+  return match && SAFE_COLOR_PATTERN.test(match[1]) ? match[1] : undefined
+}
+
+/**
+ * &amp; -> &, &#39; -> ', &#x27; -> '
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] !== '#') {
+      return entities[code.toLowerCase()] || entity
+    }
+
+    const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+
+    return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity
+  })
+}
@@ -0,0 +1,48 @@
+import fromReadableTime from '~/utils/date/fromReadableTime'
+import getBlocks from './getBlocks'
+import { SubtitleCue } from './types'
+
+const ALIGNMENT_PATTERN = /{\\an(\d)}/
+// Any other ASS override blocks we can't do anything about (e.g., {\fad(200,200)})
+const OVERRIDE_TAGS_PATTERN = /{\\[^}]*}/g
+
+/**
+ * Parse SubRip subtitles
+ *
+ * 1
+ * 00:00:03,300 --> 00:00:04,000
+ * {\an8}Hello there
+ */
+export default function parseSrt(text: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = []
+
+  getBlocks(text).forEach(lines => {
+    const timing = lines.findIndex(line => line.includes('-->'))
+
+    if (timing === -1) {
+      return
+    }
+
+    // Some files have coordinates (X1:... Y2:...) after the end time, which we don't support.
+    const [start, end] = lines[timing].split('-->').map(time => time.trim().split(/\s+/)[0])
+
+    const text = lines
+      .slice(timing + 1)
+      .map(line => line.trim())
+      .join('\n')
+
+    // Files converted from ASS tend to keep their placement tags (e.g., {\an8})
+    const alignment = text.match(ALIGNMENT_PATTERN)
+
+    cues.push({
+      id: timing > 0 ? lines[0].trim() : String(cues.length + 1),
+      start: fromReadableTime(start),
+      end: fromReadableTime(end),
+      text: text.replace(OVERRIDE_TAGS_PATTERN, ''),
+      settings: {},
+      alignment: alignment ? Number(alignment[1]) : undefined
+    })
+  })
+
+  return cues
+}
@@ -0,0 +1,73 @@
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass'
+
+/**
+ * WebVTT cue settings (e.g., `line:0 align:start`). SRT cues don't have any;
+ * they use `{\anN}` tags in the text instead, which we turn into the cue's `alignment`.
+ *
+ * @source https://www.w3.org/TR/webvtt1/#webvtt-cue-settings
+ */
+export interface SubtitleCueSettings {
+  vertical?: string
+  line?: string
+  position?: string
+  size?: string
+  align?: string
+  region?: string
+}
+
+/**
+ * Styling from ASS/SSA styles and override tags
+ */
+export interface SubtitleTextStyle {
+  color?: string
+  outlineColor?: string
+  fontFamily?: string
+  // Relative to the default style's size (1 is the usual subtitle size)
+  fontScale?: number
+  isBold?: boolean
+  isItalic?: boolean
+  isUnderline?: boolean
+  isStrikeOut?: boolean
+}
+
+// A run of text that shares the same style (e.g., "{\i1}Hello{\i0} there" has two)
+export interface SubtitleSegment {
+  text: string
+  style: SubtitleTextStyle
+}
+
+export interface SubtitleCue {
+  id: string
+  // In seconds, sub-second precision included
+  start: number
+  end: number
+  // Plain text without any formatting tags (except for SRT and WebVTT's HTML-like tags)
+  text: string
+  // The speaker from WebVTT voice tags (<v Alex>...)
+  voice?: string
+  settings: SubtitleCueSettings
+  // Numpad-style (7 8 9 top, 4 5 6 middle, 1 2 3 bottom) from ASS styles or `{\anN}` tags
+  alignment?: number
+  // Exact position from ASS `\pos(x,y)`, in percentages of the video
+  position?: { x: number; y: number }
+  // Cues on higher layers are drawn over lower ones
+  layer?: number
+  segments?: SubtitleSegment[]
+}
+
+/**
+ * Formatting from the HTML-like tags SRT and WebVTT cues use (<i>, <b>, <u>, <font color>)
+ */
+export type SubtitleMarkupNode = SubtitleMarkupText | SubtitleMarkupElement
+
+export interface SubtitleMarkupText {
+  type: 'text'
+  text: string
+}
+
+export interface SubtitleMarkupElement {
+  type: 'i' | 'b' | 'u' | 'font'
+  // Only for <font color>
+  color?: string
+  children: SubtitleMarkupNode[]
+}
@@ -0,0 +1,71 @@
+import fromReadableTime from '~/utils/date/fromReadableTime'
+import getBlocks from './getBlocks'
+import { SubtitleCue, SubtitleCueSettings } from './types'
+
+const SETTING_NAMES = ['vertical', 'line', 'position', 'size', 'align', 'region']
+
+// <v Alex>, <v.loud Alex>
+const VOICE_PATTERN = /<v(?:\.[^\s>]*)?\s+([^>]+)>/
+const VOICE_TAGS_PATTERN = /<\/?v(?:[.\s][^>]*)?>/g
+// Karaoke-style timestamps inside the text (e.g., <00:00:01.500>)
+const TIMESTAMP_TAGS_PATTERN = /<\d{2}(?::\d{2}){1,2}\.\d{3}>/g
+
+/**
+ * Parse WebVTT subtitles. Header, NOTE, STYLE, and REGION blocks are skipped.
+ *
+ * WEBVTT
+ *
+ * intro
+ * 00:03.300 --> 00:04.000 line:0 align:start
+ * <v Alex>Hello there
+ */
+export default function parseVtt(text: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = []
+
+  getBlocks(text).forEach(lines => {
+    if (/^(WEBVTT|NOTE|STYLE|REGION)\b/.test(lines[0])) {
+      return
+    }
+
+    const timing = lines.findIndex(line => line.includes('-->'))
+
+    if (timing === -1) {
+      return
+    }
+
+    const [start, rest] = lines[timing].split('-->').map(part => part.trim())
+    const [end, ...settings] = rest.split(/\s+/)
+
+    const body = lines.slice(timing + 1).join('\n')
+    const voice = body.match(VOICE_PATTERN)
+
+    cues.push({
+      id: timing > 0 ? lines[0].trim() : String(cues.length + 1),
+      start: fromReadableTime(start),
+      end: fromReadableTime(end),
+      text: body
+        .replace(VOICE_TAGS_PATTERN, '')
+        .replace(TIMESTAMP_TAGS_PATTERN, '')
+        .trim(),
+      voice: voice ? voice[1].trim() : undefined,
+      settings: getSettings(settings)
+    })
+  })
+
+  return cues
+}
+
+/**
+ * ['line:0', 'align:start'] -> { line: '0', align: 'start' }
+ */
+function getSettings(settings: string[]): SubtitleCueSettings {
+  return settings.reduce((result: SubtitleCueSettings, setting) => {
+    const [name, value] = setting.split(':')
+
+    if (SETTING_NAMES.includes(name) && value) {
+      result[name] = value
+    }
+
+    return result
+  }, {})
+}
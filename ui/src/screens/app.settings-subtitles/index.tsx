@@ -0,0 +1,170 @@
+import './style'
+
+import * as React from 'react'
+import UiContainer from '~/components/UiContainer'
+import UiFormGroup from '~/components/UiFormGroup'
+import UiSelect from '~/components/UiSelect'
+import UiButton from '~/components/UiButton'
+import UiFormSpacer from '~/components/UiFormSpacer'
+import AppHeadingSettings from '~/screens/app/AppHeadingSettings'
+import SubtitleSlot from '~/screens/app.watch.home/SubtitleSlot'
+import { SubtitleCue } from '~/lib/subtitles'
+import createCueIndex from '~/lib/subtitles/createCueIndex'
+import { useSubtitleAppearance, defaultSubtitleAppearance } from '~/hooks/useSubtitleAppearance'
+
+type Appearance = AppSubtitleAppearance
+
+interface Option<T> {
+  value: T
+  label: string
+}
+
+const fontScales: Option<number>[] = [
+  { value: 0.75, label: 'Small' },
+  { value: 1, label: 'Medium' },
+  { value: 1.25, label: 'Large' },
+  { value: 1.5, label: 'Extra large' },
+  { value: 2, label: 'Huge' }
+]
+
+const colors: Option<string>[] = [
+  { value: '#ffffff', label: 'White' },
+  { value: '#ffeb3b', label: 'Yellow' },
+  { value: '#4dd0e1', label: 'Cyan' },
+  { value: '#8bc34a', label: 'Green' }
+]
+
+const backgroundOpacities: Option<number>[] = [
+  { value: 0, label: 'None' },
+  { value: 0.25, label: '25%' },
+  { value: 0.5, label: '50%' },
+  { value: 0.75, label: '75%' },
+  { value: 1, label: 'Solid' }
+]
+
+const outlines: Option<Appearance['outline']>[] = [
+  { value: 'none', label: 'None' },
+  { value: 'thin', label: 'Thin' },
+  { value: 'thick', label: 'Thick' }
+]
+
+const positions: Option<number>[] = [
+  { value: 0, label: 'Bottom' },
+  { value: 5, label: 'Slightly raised' },
+  { value: 10, label: 'Raised' },
+  { value: 20, label: 'High' }
+]
+
+// Shown through the real subtitle renderer so the preview looks exactly like a party
+const cues: SubtitleCue[] = [
+  {
+    id: '1',
+    start: 0,
+    end: Infinity,
+    text: 'This is how subtitles will look\nin every party you join.',
+    settings: {}
+  }
+]
+
+const index = createCueIndex(cues)
+
+function AppSettingsSubtitles(props: ReactComponentWrapper) {
+  const [appearance, setAppearance] = useSubtitleAppearance()
+
+  function handleChange<K extends keyof Appearance>(key: K, value: Appearance[K]) {
+    setAppearance({
+      ...appearance,
+      [key]: value
+    })
+  }
+
+  function handleReset() {
+    setAppearance(defaultSubtitleAppearance)
+  }
+
+  return (
+    <React.Fragment>
+      <AppHeadingSettings title="Subtitles" backUrl="/settings" />
+
+      <div className="settings-subtitles-preview">
+        <SubtitleSlot index={index} time={0} delay={0} appearance={appearance} isPlayerOpen={false} />
+      </div>
+
+      <UiContainer>
+        <UiFormGroup label="Font Size">
+          <UiSelect
+            value={String(appearance.fontScale)}
+            onChange={evt => handleChange('fontScale', Number(evt.currentTarget.value))}>
+            {fontScales.map(option => (
+              <option value={String(option.value)} key={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </UiSelect>
+        </UiFormGroup>
+
+        <UiFormSpacer />
+
+        <UiFormGroup label="Text Color">
+          <UiSelect value={appearance.color} onChange={evt => handleChange('color', evt.currentTarget.value)}>
+            {colors.map(option => (
+              <option value={option.value} key={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </UiSelect>
+        </UiFormGroup>
+
+        <UiFormSpacer />
+
+        <UiFormGroup label="Background">
+          <UiSelect
+            value={String(appearance.backgroundOpacity)}
+            onChange={evt => handleChange('backgroundOpacity', Number(evt.currentTarget.value))}>
+            {backgroundOpacities.map(option => (
+              <option value={String(option.value)} key={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </UiSelect>
+        </UiFormGroup>
+
+        <UiFormSpacer />
+
+        <UiFormGroup label="Outline">
+          <UiSelect
+            value={appearance.outline}
+            onChange={evt => handleChange('outline', evt.currentTarget.value as Appearance['outline'])}>
+            {outlines.map(option => (
+              <option value={option.value} key={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </UiSelect>
+        </UiFormGroup>
+
+        <UiFormSpacer />
+
+        <UiFormGroup label="Position" hint="Raising subtitles helps when the video has its own captions at the bottom.">
+          <UiSelect
+            value={String(appearance.position)}
+            onChange={evt => handleChange('position', Number(evt.currentTarget.value))}>
+            {positions.map(option => (
+              <option value={String(option.value)} key={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </UiSelect>
+        </UiFormGroup>
+
+        <UiFormSpacer />
+
+        <UiButton block size="l" onClick={handleReset}>
+          Reset to Defaults
+        </UiButton>
+      </UiContainer>
+    </React.Fragment>
+  )
+}
+
+export default AppSettingsSubtitles
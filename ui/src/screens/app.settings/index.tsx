@@ -70,6 +70,18 @@ function AppSettings(props: ReactComponentWrapper) {
               </div>
             </Link>
 
+            <Link to="/settings/subtitles" className="item">
+              <div className="icon">
+                <i className="fa fa-cc" />
+              </div>
+
+              <div className="text">Subtitles</div>
+
+              <div className="caret">
+                <i className="fa fa-angle-right" />
+              </div>
+            </Link>
+
             {!isPWA && (
               <Link to="/download" className="item">
                 <div className="icon">
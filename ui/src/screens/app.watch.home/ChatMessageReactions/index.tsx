@@ -0,0 +1,90 @@
+import './style.css'
+import * as React from 'react'
+import cx from 'classnames'
+import UiAvatar from '~/components/UiAvatar'
+import UiPlainButton from '~/components/UiPlainButton'
+import reactionEmojis from '~/utils/parties/reactionEmojis'
+import { useAuth } from '~/contexts/Auth'
+import { useMemo } from 'react'
+
+interface Props {
+  reactions: AppPartyLogReaction[]
+  isSelf: boolean
+  onToggle: (emoji: string) => void
+}
+
+interface GroupedReaction {
+  emoji: string
+  users: AppUser[]
+  isReacted: boolean
+}
+
+function ChatMessageReactions(props: Props) {
+  const auth = useAuth()
+
+  const grouped = useMemo(() => {
+    return groupReactions(props.reactions, auth.data)
+  }, [props.reactions, auth.data])
+
+  return (
+    <div className={cx('app-watch-chat-message-reactions', { 'is-self': props.isSelf })}>
+      {grouped.map(group => (
+        <UiPlainButton
+          className={cx('reaction', { 'is-reacted': group.isReacted })}
+          title={group.users.map(user => user.name).join(', ')}
+          onClick={() => props.onToggle(group.emoji)}
+          key={group.emoji}>
+          <span className="emoji">{group.emoji}</span>
+          <span className="count">{group.users.length}</span>
+          <span className="avatars">
+            {group.users.slice(0, 3).map(user => (
+              <span className="avatar" key={user.id}>
+                <UiAvatar user={user} size="sm" />
+              </span>
+            ))}
+          </span>
+        </UiPlainButton>
+      ))}
+
+      <div className="picker">
+        <div className="options">
+          {reactionEmojis.map(emoji => (
+            <UiPlainButton className="option" onClick={() => props.onToggle(emoji)} key={emoji}>
+              {emoji}
+            </UiPlainButton>
+          ))}
+        </div>
+
+        <div className="toggle" title="Add reaction">
+          <i className="fa fa-smile-o" />
+        </div>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Groups reactions by emoji, in the order each emoji was first used.
+ */
+function groupReactions(reactions: AppPartyLogReaction[], self: AppUser): GroupedReaction[] {
+  const groups: GroupedReaction[] = []
+
+  reactions.forEach(reaction => {
+    let group = groups.find(group => group.emoji === reaction.emoji)
+
+    if (group == null) {
+      group = { emoji: reaction.emoji, users: [], isReacted: false }
+      groups.push(group)
+    }
+
+    group.users.push(reaction.user)
+
+    if (reaction.user_id === self.id) {
+      group.isReacted = true
+    }
+  })
+
+  return groups
+}
+
+export default ChatMessageReactions
@@ -4,9 +4,13 @@ import * as React from 'react'
 import cx from 'classnames'
 import UiAvatar from '~/components/UiAvatar'
 import UiPlainButton from '~/components/UiPlainButton'
+import UiLoader from '~/components/UiLoader'
 import ChatInvitationModal from '../ChatInvitationModal'
 import TextareaAutosize from 'react-textarea-autosize'
 import ChatWidgetTip from '../ChatWidgetTip'
+import ChatMessageReactions from '../ChatMessageReactions'
+import { useTypingIndicator } from '../useTypingIndicator'
+import { useMessageQueue, QueuedMessage } from '../useMessageQueue'
 
 import { usePropRef } from '~/hooks/usePropRef'
 import { useAuth } from '~/contexts/Auth'
@@ -19,8 +23,13 @@ import { useReducer, useState, useEffect, useMemo, useRef } from 'react'
 import { useAsyncEffect } from 'use-async-effect'
 import { usePusher } from '~/hooks/usePusher'
 import { useWindowVisibility } from '~/hooks/useWindowVisibility'
+import { useBufferState } from '~/hooks/useBufferState'
 import useWindowSize from 'react-use/lib/useWindowSize'
 import getStandardFormattedDateTime from '~/utils/date/getStandardFormattedDateTime'
+import toReadableTime from '~/utils/date/toReadableTime'
+import getShortVideoTitle from '~/utils/shows/getShortVideoTitle'
+import useUpdateEffect from 'react-use/lib/useUpdateEffect'
+import { toast } from '~/components/Toast'
 
 import asset_chatInactive from '~/assets/audio/chat-inactive.ogg'
 import asset_chatSend from '~/assets/audio/chat-send.ogg'
@@ -32,30 +41,59 @@ interface State {
   message: {
     text: string
   }
-  isSending: {
-    [key: number]: string
-  }
   isLoading: boolean
+  // Whether there are older logs we haven't loaded yet
+  hasMore: boolean
+  isLoadingMore: boolean
 }
 
 type Action =
   | ReducerAction<'request:init'>
   | ReducerAction<'request:error'>
-  | ReducerAction<'request:success', { logs: AppPartyLog[] }>
+  | ReducerAction<'request:success', { logs: AppPartyLog[]; hasMore: boolean }>
+  | ReducerAction<'more:init'>
+  | ReducerAction<'more:success', { logs: AppPartyLog[]; hasMore: boolean }>
+  | ReducerAction<'more:error'>
   | ReducerAction<'logs:push', { log: AppPartyLog }>
+  | ReducerAction<'logs:update', { log: AppPartyLog }>
   | ReducerAction<'chat:input', { input: string }>
   | ReducerAction<'chat:init', { log: AppPartyLog }>
+  | ReducerAction<'quote:init', { log: AppPartyLog }>
   | ReducerAction<'chat:success', { id: AppId; log: AppPartyLog }>
   | ReducerAction<'chat:error', { id: AppId }>
+  | ReducerAction<'chat:discard', { id: AppId }>
+  | ReducerAction<'reactions:update', { id: AppId; reactions: AppPartyLogReaction[] }>
 
 interface Props {
   party: AppParty
+  offsets: { [id: string]: number }
+  // Where the member is in the video; recorded along with every message they send.
+  time: number
   isChatOpen: boolean
   isSeasonSelectionOpen: boolean
   isInvitationOpen: boolean
   isKeyboardInfoOpen: boolean
+  isPartySettingsOpen: boolean
   onOpenInvitationModal: () => void
   onCloseInvitationModal: () => void
+  // Shown in its own tab so members can switch between the chat and the subtitle's lines
+  transcript: React.ReactNode
+  // The subtitle line the member wants to post; a new one is posted whenever this changes.
+  quote: SubtitleQuote | null
+  onSeek: (time: number) => void
+}
+
+export interface SubtitleQuote {
+  id: string
+  text: string
+  // When the line shows up in the video, in seconds
+  time: number
+}
+
+// A page of logs from the api, oldest first
+interface LogsPage {
+  data: AppPartyLog[]
+  has_more: boolean
 }
 
 interface GroupedLog {
@@ -77,10 +115,34 @@ const reducer = (state: State, action: Action) => {
       return {
         ...state,
         logs: action.payload.logs,
+        hasMore: action.payload.hasMore,
         isLoading: false
       }
     }
 
+    case 'more:init': {
+      return {
+        ...state,
+        isLoadingMore: true
+      }
+    }
+
+    case 'more:success': {
+      return {
+        ...state,
+        logs: [...action.payload.logs, ...state.logs],
+        hasMore: action.payload.hasMore,
+        isLoadingMore: false
+      }
+    }
+
+    case 'more:error': {
+      return {
+        ...state,
+        isLoadingMore: false
+      }
+    }
+
     case 'request:error': {
       return {
         ...state,
@@ -95,6 +157,32 @@ const reducer = (state: State, action: Action) => {
       }
     }
 
+    case 'logs:update': {
+      return immer(state, draft => {
+        const updated = action.payload.log
+        const index = draft.logs.findIndex(log => log.id === updated.id)
+
+        // The log may have been filtered out of the list.
+        if (index === -1) {
+          return
+        }
+
+        draft.logs[index] = updated
+
+        if (updated.type !== 'message') {
+          return
+        }
+
+        // Keep the previews of the replies to this message in sync.
+        draft.logs.forEach(log => {
+          if (log.type === 'message' && log.message.reply_to != null && log.message.reply_to.id === updated.id) {
+            log.message.reply_to =
+              updated.message.removed_at != null ? null : { ...log.message.reply_to, text: updated.message.text }
+          }
+        })
+      })
+    }
+
     case 'chat:input': {
       return immer(state, draft => {
         draft.message.text = action.payload.input
@@ -108,17 +196,46 @@ const reducer = (state: State, action: Action) => {
       })
     }
 
-    case 'chat:error': {
-      // @TODO
-      return {
-        ...state
-      }
+    case 'quote:init': {
+      return immer(state, draft => {
+        draft.logs.push(action.payload.log)
+      })
+    }
+
+    // Messages are kept around to be retried, so this is only for quotes.
+    case 'chat:error':
+    case 'chat:discard': {
+      return immer(state, draft => {
+        draft.logs = draft.logs.filter(log => log.id !== action.payload.id)
+      })
     }
 
     case 'chat:success': {
       return immer(state, draft => {
         const index = draft.logs.findIndex(log => log.id === action.payload.id)
-        draft.logs[index] = action.payload.log
+
+        // The logs may have been refetched since we sent the message.
+        if (index === -1) {
+          return
+        }
+
+        // When resending, the server gives back the message if it already got it before.
+        if (draft.logs.some(log => log.id === action.payload.log.id)) {
+          draft.logs.splice(index, 1)
+        } else {
+          draft.logs[index] = action.payload.log
+        }
+      })
+    }
+
+    case 'reactions:update': {
+      return immer(state, draft => {
+        const log = draft.logs.find(log => log.id === action.payload.id)
+
+        // The log may have been filtered out of the list.
+        if (log != null) {
+          log.reactions = action.payload.reactions
+        }
       })
     }
   }
@@ -127,15 +244,30 @@ const reducer = (state: State, action: Action) => {
 const init: State = {
   logs: [],
   message: { text: '' },
-  isSending: {},
-  isLoading: false
+  isLoading: false,
+  hasMore: false,
+  isLoadingMore: false
 }
 
+// How close to the top of the chat we load older logs, in pixels
+const LOAD_MORE_THRESHOLD = 200
+
 function ChatWidget(props: Props) {
   const auth = useAuth()
   const [state, dispatch] = useReducer(reducer, init)
   const { height } = useWindowSize()
   const [hasUnreadMessages, setHasUnreadMessages] = useState(false)
+  const [tab, setTab] = useState<'chat' | 'transcript'>('chat')
+  const [isEpisodeOnly, setIsEpisodeOnly] = useState(false)
+  // The message (or quote) the member is replying to
+  const [replyingTo, setReplyingTo] = useState<AppPartyLog | null>(null)
+  // The member's own message being edited through the chatbar
+  const [editing, setEditing] = useState<AppPartyLog | null>(null)
+  // The log we scrolled to from a reply, which we'll highlight for a bit
+  const [highlightedLogId, setHighlightedLogId] = useState<AppId | null>(null)
+  const [isHighlighting, displayHighlight] = useBufferState({ timeout: 1500 })
+  // Refetch whenever the filter is toggled, or when the party moves to another episode while it's on.
+  const filteredVideoId = isEpisodeOnly ? props.party.video.id : null
   const chatbarRef = useRef<HTMLDivElement>(null)
   const idleAudioRef = useRef<HTMLAudioElement>(null)
   const sendAudioRef = useRef<HTMLAudioElement>(null)
@@ -147,15 +279,41 @@ function ChatWidget(props: Props) {
   const lastScrollDistanceFromBottom = useRef<number>(0)
   // One-off flag used to check if it's a message sent through pusher
   const isReceivingRef = useRef<boolean>(true)
+  // One-off flag used to check if we added older logs above the ones we have
+  const isPrependingRef = useRef<boolean>(false)
+  // Whether the user has scrolled far enough back that we'll offer to jump to the latest logs
+  const [isFarFromLatest, setIsFarFromLatest] = useState(false)
+  // The original of a reply we're loading older logs for, which we'll scroll to once it shows up
+  const jumpingToLogIdRef = useRef<AppId | null>(null)
   const isSubmittable = state.message.text.trimRight().trimLeft().length > 0
 
+  const queue = useMessageQueue({
+    party: props.party,
+    onSuccess(id, log) {
+      dispatch({
+        type: 'chat:success',
+        payload: { id, log }
+      })
+    }
+  })
+
+  const queueStatuses = useMemo(() => {
+    const statuses: { [id: string]: QueuedMessage['status'] } = {}
+    queue.queue.forEach(message => {
+      statuses[message.id] = message.status
+    })
+    return statuses
+  }, [queue.queue])
+
   useAsyncEffect(
     async () => {
       dispatch({
         type: 'request:init'
       })
 
-      const [err, res] = await axios.get(`/api/parties/${props.party.id}/logs`)
+      const [err, res] = await axios.get(`/api/parties/${props.party.id}/logs`, {
+        params: filteredVideoId != null ? { show_video_id: filteredVideoId } : {}
+      })
 
       if (err != null) {
         return dispatch({
@@ -163,19 +321,30 @@ function ChatWidget(props: Props) {
         })
       }
 
+      // Messages that haven't been sent yet aren't in the server's logs, unless it got them
+      // and we just didn't hear back.
+      const page: LogsPage = res.data
+      const logs = page.data
+      const clientIds = logs.filter(log => log.type === 'message').map(log => log.message.client_id)
+      const queued = queue.queue.filter(message => !clientIds.includes(String(message.id)))
+
       dispatch({
         type: 'request:success',
-        payload: { logs: res.data }
+        payload: { logs: [...logs, ...queued.map(message => message.log)], hasMore: page.has_more }
       })
 
       scrollToBottom(chatbarRef.current)
     },
     null,
-    []
+    [filteredVideoId]
   )
 
   React.useLayoutEffect(() => {
-    if (!isReceivingRef.current || shouldScrollToBottomRef.current) {
+    if (isPrependingRef.current) {
+      // Older logs were added above, so we'll keep the user where they were from the bottom.
+      isPrependingRef.current = false
+      scrollFromBottom(chatbarRef.current, lastScrollDistanceFromBottom.current)
+    } else if (!isReceivingRef.current || shouldScrollToBottomRef.current) {
       // Scroll to bottom whenever:
       // A new log gets sent by someone else while we're scrolled a bit from above.
       // We sent the message by ourself.
@@ -193,7 +362,25 @@ function ChatWidget(props: Props) {
 
   const isWindowVisible = useWindowVisibility()
 
-  usePusher(`private-party.${props.party.id}`, 'log', (event: { log: AppPartyLog }) => {
+  const typing = useTypingIndicator({ party: props.party })
+
+  // The pusher callback is only bound once, so we'll read the filter through a ref.
+  const filteredVideoIdRef = usePropRef(filteredVideoId)
+
+  usePusher(`private-party.${props.party.id}`, 'log', (event: { log: AppPartyLog; action: 'create' | 'update' }) => {
+    // Edited and removed messages are changed in place, so there's nothing new to scroll to.
+    if (event.action === 'update') {
+      return dispatch({
+        type: 'logs:update',
+        payload: { log: event.log }
+      })
+    }
+
+    // Keep the list consistent with what the server would give us for the same filter.
+    if (filteredVideoIdRef.current != null && getLogVideoId(event.log) !== filteredVideoIdRef.current) {
+      return
+    }
+
     isReceivingRef.current = true
 
     // If the user was scrolled to the bottom before receiving a new message
@@ -211,6 +398,17 @@ function ChatWidget(props: Props) {
     }
   })
 
+  usePusher(
+    `private-party.${props.party.id}`,
+    'log.reactions',
+    (event: { log_id: AppId; reactions: AppPartyLogReaction[] }) => {
+      dispatch({
+        type: 'reactions:update',
+        payload: { id: event.log_id, reactions: event.reactions }
+      })
+    }
+  )
+
   useEffect(() => {
     // @TODO Make a reusable component that does this kasi tangina nito hahahah
     // <Audio volume={pakyu} />
@@ -219,13 +417,14 @@ function ChatWidget(props: Props) {
   }, [])
 
   const propsRef = usePropRef(props)
+  const tabRef = usePropRef(tab)
 
   useEffect(() => {
     function handleKeyDown(evt: KeyboardEvent) {
       // @TODO Turn / into a shortcut to open up chat. At the moment,
       // causes bugs like breaking layout because we're forcing focus to
       // an element that's off-canvas.
-      if (!propsRef.current.isChatOpen) {
+      if (!propsRef.current.isChatOpen || tabRef.current !== 'chat') {
         return
       }
 
@@ -233,7 +432,8 @@ function ChatWidget(props: Props) {
       if (
         propsRef.current.isInvitationOpen ||
         propsRef.current.isSeasonSelectionOpen ||
-        propsRef.current.isKeyboardInfoOpen
+        propsRef.current.isKeyboardInfoOpen ||
+        propsRef.current.isPartySettingsOpen
       ) {
         return
       }
@@ -266,19 +466,33 @@ function ChatWidget(props: Props) {
   }, [height])
 
   function handleInput(evt: React.FormEvent<HTMLInputElement>) {
+    const input = evt.currentTarget.value
+
     dispatch({
       type: 'chat:input',
-      payload: { input: evt.currentTarget.value }
+      payload: { input }
     })
+
+    if (input.trim().length > 0) {
+      typing.start()
+    } else {
+      typing.stop()
+    }
   }
 
-  async function handleMessage(evt: React.FormEvent<HTMLFormElement>) {
+  function handleMessage(evt: React.FormEvent<HTMLFormElement>) {
     evt.preventDefault()
 
     if (!isSubmittable) {
       return
     }
 
+    typing.stop()
+
+    if (editing != null) {
+      return handleEdit(editing, state.message.text)
+    }
+
     const id = uuid()
 
     const date = getStandardFormattedDateTime()
@@ -291,6 +505,14 @@ function ChatWidget(props: Props) {
         id: uuid(),
         text: state.message.text,
         user: auth.data,
+        show_video_id: props.party.video.id,
+        video: props.party.video,
+        current_time: props.time,
+        reply_to_id: replyingTo != null ? replyingTo.id : null,
+        reply_to: replyingTo != null ? getReplyPreview(replyingTo) : null,
+        client_id: id,
+        edited_at: null,
+        removed_at: null,
         created_at: date,
         updated_at: date
       },
@@ -306,10 +528,67 @@ function ChatWidget(props: Props) {
       payload: { log }
     })
 
+    setReplyingTo(null)
+
     sendAudioRef.current.play()
 
-    const [err, res] = await axios.post(`/api/parties/${props.party.id}/logs/message`, {
-      message: state.message.text
+    queue.enqueue(log, {
+      message: log.message.text,
+      current_time: log.message.current_time,
+      reply_to_id: log.message.reply_to_id
+    })
+  }
+
+  function handleDiscard(log: AppPartyLog) {
+    queue.discard(log.id)
+
+    dispatch({
+      type: 'chat:discard',
+      payload: { id: log.id }
+    })
+  }
+
+  useUpdateEffect(() => {
+    if (props.quote != null) {
+      handleQuote(props.quote)
+    }
+  }, [props.quote])
+
+  async function handleQuote(quote: SubtitleQuote) {
+    const id = uuid()
+
+    const date = getStandardFormattedDateTime()
+
+    const log: AppPartyLog = {
+      id,
+      party_id: props.party.id,
+      type: 'quote',
+      quote: {
+        id: uuid(),
+        text: quote.text,
+        user: auth.data,
+        show_video_id: props.party.video.id,
+        time: quote.time,
+        created_at: date,
+        updated_at: date
+      },
+      activity: null,
+      created_at: date,
+      updated_at: date
+    }
+
+    isReceivingRef.current = false
+
+    dispatch({
+      type: 'quote:init',
+      payload: { log }
+    })
+
+    sendAudioRef.current.play()
+
+    const [err, res] = await axios.post(`/api/parties/${props.party.id}/logs/quote`, {
+      text: quote.text,
+      time: quote.time
     })
 
     if (err != null) {
@@ -328,6 +607,197 @@ function ChatWidget(props: Props) {
     })
   }
 
+  function handleClickQuote(log: AppPartyLog) {
+    if (log.quote.show_video_id !== props.party.video.id) {
+      return toast('This line is from another episode.')
+    }
+
+    props.onSeek(log.quote.time)
+  }
+
+  async function handleToggleReaction(log: AppPartyLog, emoji: string) {
+    const reaction = log.reactions.find(reaction => reaction.user_id === auth.data.id && reaction.emoji === emoji)
+
+    const date = getStandardFormattedDateTime()
+
+    // We'll show the change right away, then replace it with what the server has.
+    dispatch({
+      type: 'reactions:update',
+      payload: {
+        id: log.id,
+        reactions:
+          reaction != null
+            ? log.reactions.filter(r => r !== reaction)
+            : [
+                ...log.reactions,
+                {
+                  id: uuid(),
+                  party_log_id: log.id,
+                  user_id: auth.data.id,
+                  emoji,
+                  user: auth.data,
+                  created_at: date,
+                  updated_at: date
+                }
+              ]
+      }
+    })
+
+    const url = `/api/parties/${props.party.id}/logs/${log.id}/reactions`
+
+    const [err, res] =
+      reaction != null ? await axios.delete(url, { params: { emoji } }) : await axios.post(url, { emoji })
+
+    dispatch({
+      type: 'reactions:update',
+      payload: { id: log.id, reactions: err != null ? log.reactions : res.data }
+    })
+  }
+
+  function handleReply(log: AppPartyLog) {
+    setReplyingTo(log)
+    cancelEditing()
+    inputRef.current.focus()
+  }
+
+  function handleStartEditing(log: AppPartyLog) {
+    setEditing(log)
+    setReplyingTo(null)
+
+    dispatch({
+      type: 'chat:input',
+      payload: { input: log.message.text }
+    })
+
+    inputRef.current.focus()
+  }
+
+  function cancelEditing() {
+    if (editing == null) {
+      return
+    }
+
+    setEditing(null)
+
+    dispatch({
+      type: 'chat:input',
+      payload: { input: '' }
+    })
+  }
+
+  async function handleEdit(log: AppPartyLog, text: string) {
+    setEditing(null)
+
+    dispatch({
+      type: 'chat:input',
+      payload: { input: '' }
+    })
+
+    // We'll show the change right away, then replace it with what the server has.
+    dispatch({
+      type: 'logs:update',
+      payload: {
+        log: { ...log, message: { ...log.message, text, edited_at: getStandardFormattedDateTime() } }
+      }
+    })
+
+    const [err, res] = await axios.put(`/api/parties/${props.party.id}/logs/${log.id}/message`, {
+      message: text
+    })
+
+    dispatch({
+      type: 'logs:update',
+      payload: { log: err != null ? log : res.data }
+    })
+  }
+
+  async function handleRemove(log: AppPartyLog) {
+    if (!window.confirm('Remove this message? Everyone will see that a message was removed.')) {
+      return
+    }
+
+    if (editing != null && editing.id === log.id) {
+      cancelEditing()
+    }
+
+    dispatch({
+      type: 'logs:update',
+      payload: {
+        log: { ...log, message: { ...log.message, text: '', removed_at: getStandardFormattedDateTime() } }
+      }
+    })
+
+    const [err, res] = await axios.delete(`/api/parties/${props.party.id}/logs/${log.id}/message`)
+
+    dispatch({
+      type: 'logs:update',
+      payload: { log: err != null ? log : res.data }
+    })
+  }
+
+  /**
+   * Scroll to the log and highlight it; returns false if it isn't in the chat.
+   */
+  function scrollToLog(id: AppId): boolean {
+    const el = chatbarRef.current.querySelector(`[data-log-id="${id}"]`)
+
+    if (el == null) {
+      return false
+    }
+
+    el.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    setHighlightedLogId(id)
+    displayHighlight()
+    return true
+  }
+
+  useEffect(() => {
+    if (jumpingToLogIdRef.current != null && scrollToLog(jumpingToLogIdRef.current)) {
+      jumpingToLogIdRef.current = null
+    }
+  }, [state.logs])
+
+  async function handleClickReplyPreview(id: AppId) {
+    if (scrollToLog(id) || state.isLoadingMore) {
+      return
+    }
+
+    // The original may simply be older than the logs we've loaded so far, so we'll keep loading
+    // older pages until we find it. We'll scroll to it once it's rendered.
+    let oldest = state.logs[0]
+    let hasMore = state.hasMore
+
+    jumpingToLogIdRef.current = id
+
+    while (hasMore && oldest != null && Number(id) < Number(oldest.id)) {
+      const page = await loadMore(oldest)
+
+      if (page == null) {
+        jumpingToLogIdRef.current = null
+        return
+      }
+
+      if (page.data.some(log => log.id === id)) {
+        return
+      }
+
+      oldest = page.data[0]
+      hasMore = page.has_more
+    }
+
+    // Otherwise, the original was filtered out, or was removed.
+    jumpingToLogIdRef.current = null
+    toast('The original message is no longer in the chat.')
+  }
+
+  function handleClickMessageTime(log: AppPartyLog) {
+    if (log.message.show_video_id !== props.party.video.id) {
+      return toast('This message was sent from another episode.')
+    }
+
+    props.onSeek(log.message.current_time)
+  }
+
   const grouped = useMemo(() => {
     return groupPartyLogs(state.logs)
   }, [state.logs])
@@ -336,9 +806,15 @@ function ChatWidget(props: Props) {
 
   function handleInputKeyDown(evt: React.KeyboardEvent<HTMLInputElement>) {
     if (evt.keyCode === 27) {
-      // We want to blur the input if the user presses escape to make it
-      // convenient to access video player hotkeys without having to press anywhere
-      inputRef.current.blur()
+      // Cancel the reply first; otherwise, we want to blur the input if the user presses escape
+      // to make it convenient to access video player hotkeys without having to press anywhere
+      if (replyingTo != null) {
+        setReplyingTo(null)
+      } else if (editing != null) {
+        cancelEditing()
+      } else {
+        inputRef.current.blur()
+      }
     }
 
     if (evt.keyCode === 13 && !evt.shiftKey) {
@@ -351,8 +827,65 @@ function ChatWidget(props: Props) {
     }
   }
 
+  /**
+   * Load the page of logs before the given one; resolves to null if it failed or the filter changed meanwhile.
+   */
+  async function loadMore(oldest: AppPartyLog): Promise<LogsPage | null> {
+    const videoId = filteredVideoId
+
+    dispatch({
+      type: 'more:init'
+    })
+
+    const [err, res] = await axios.get(`/api/parties/${props.party.id}/logs`, {
+      params: videoId != null ? { offset: oldest.id, show_video_id: videoId } : { offset: oldest.id }
+    })
+
+    // The filter may have been toggled while we were loading, in which case the logs were refetched.
+    if (err != null || videoId !== filteredVideoIdRef.current) {
+      dispatch({
+        type: 'more:error'
+      })
+
+      return null
+    }
+
+    const page: LogsPage = res.data
+
+    if (page.data.length) {
+      isPrependingRef.current = true
+    }
+
+    dispatch({
+      type: 'more:success',
+      payload: { logs: page.data, hasMore: page.has_more }
+    })
+
+    return page
+  }
+
   function handleMessagesContainerScroll(evt) {
-    lastScrollDistanceFromBottom.current = getScrollDistanceFromBottom(chatbarRef.current)
+    const el = chatbarRef.current
+
+    lastScrollDistanceFromBottom.current = getScrollDistanceFromBottom(el)
+
+    // Messages we haven't sent yet are at the bottom, so the first log is the oldest we got from the server.
+    if (
+      el.scrollTop < LOAD_MORE_THRESHOLD &&
+      state.logs.length &&
+      state.hasMore &&
+      !state.isLoading &&
+      !state.isLoadingMore
+    ) {
+      loadMore(state.logs[0])
+    }
+
+    // We'll consider the user far back once they're a couple of screens away from the latest logs.
+    const isFar = lastScrollDistanceFromBottom.current > el.offsetHeight * 2
+
+    if (isFar !== isFarFromLatest) {
+      setIsFarFromLatest(isFar)
+    }
 
     if (hasUnreadMessages && isScrolledToBottom(chatbarRef.current)) {
       // We'll remove the "has unread messages" note when the user scrolls to the bottom.
@@ -366,13 +899,17 @@ function ChatWidget(props: Props) {
     scrollToBottom(chatbarRef.current)
   }
 
+  const bufferingMembers = useMemo(() => {
+    return props.party.members.filter(member => member.pivot.is_active && member.pivot.is_buffering)
+  }, [props.party.members])
+
   return (
     <div
       className={cx('watch-screen-chat', {
         'is-chat-open': props.isChatOpen
       })}>
       <div className="watch-screen-canopy">
-        <UiAvatarGroup users={props.party.members} />
+        <UiAvatarGroup users={props.party.members} offsets={props.offsets} />
 
         <ChatInvitationModal
           isOpen={props.isInvitationOpen}
@@ -381,14 +918,56 @@ function ChatWidget(props: Props) {
         />
       </div>
 
-      <div className="watch-screen-chat-messages-container">
+      {props.party.is_waiting && (
+        <div className="watch-screen-canopy-note">
+          <span className="icon">
+            <i className="fa fa-hourglass-half" />
+          </span>
+
+          <h6 className="ui-subheading">{getWaitingText(bufferingMembers)}</h6>
+        </div>
+      )}
+
+      <div className="watch-screen-chat-tabs">
+        <UiPlainButton className={cx('tab', { 'is-active': tab === 'chat' })} onClick={() => setTab('chat')}>
+          Chat
+        </UiPlainButton>
+
+        <UiPlainButton
+          className={cx('tab', { 'is-active': tab === 'transcript' })}
+          onClick={() => setTab('transcript')}>
+          Transcript
+        </UiPlainButton>
+
+        {tab === 'chat' && (
+          <UiPlainButton
+            className={cx('filter', { 'is-active': isEpisodeOnly })}
+            title="Only show messages sent from this episode"
+            onClick={() => setIsEpisodeOnly(!isEpisodeOnly)}>
+            <i className="fa fa-filter" />
+          </UiPlainButton>
+        )}
+      </div>
+
+      {tab === 'transcript' && props.transcript}
+
+      {/* We'll only hide the chat so we don't lose the scroll position and incoming messages. */}
+      <div className={cx('watch-screen-chat-messages-container', { 'is-hidden': tab !== 'chat' })}>
         <div className="watch-screen-chat-messages" ref={chatbarRef} onScroll={handleMessagesContainerScroll}>
-          <ChatWidgetTip />
+          {/* The tip is at the very beginning of the chat, so we'll only show it once everything's loaded. */}
+          {!state.hasMore && <ChatWidgetTip />}
 
-          {grouped.map((group, i) => {
+          {state.isLoadingMore && (
+            <div className="watch-screen-chat-loader">
+              <UiLoader />
+            </div>
+          )}
+
+          {/* Keyed by the first log so groups already shown don't remount when older logs are added above */}
+          {grouped.map(group => {
             if (group.type === 'activity') {
               return (
-                <div className="watch-screen-activity-group" key={i}>
+                <div className="watch-screen-activity-group" key={group.logs[0].id}>
                   {group.logs.map(log => (
                     <div className="activity" key={log.id}>
                       <div className="avatar">
@@ -411,7 +990,7 @@ function ChatWidget(props: Props) {
                 className={cx('watch-screen-chat-group', {
                   'is-self': isSelf
                 })}
-                key={i}>
+                key={group.logs[0].id}>
                 <div className="avatar">
                   <UiAvatar user={group.user} />
                 </div>
@@ -421,8 +1000,92 @@ function ChatWidget(props: Props) {
 
                   <div className="list">
                     {group.logs.map(log => (
-                      <div className="message" key={log.id}>
-                        <div className="inner">{log.message.text}</div>
+                      <div
+                        className={cx('message', {
+                          'is-highlighted': isHighlighting && highlightedLogId === log.id,
+                          'is-pending': queueStatuses[log.id] === 'pending',
+                          'is-failed': queueStatuses[log.id] === 'failed'
+                        })}
+                        data-log-id={log.id}
+                        key={log.id}>
+                        {log.type === 'message' && log.message.reply_to != null && (
+                          <UiPlainButton
+                            className="reply-preview"
+                            onClick={() => handleClickReplyPreview(log.message.reply_to.id)}>
+                            <span className="name">
+                              <i className="fa fa-reply" /> {log.message.reply_to.user.name}
+                            </span>
+                            <span className="text">{log.message.reply_to.text}</span>
+                          </UiPlainButton>
+                        )}
+
+                        {log.type === 'quote' ? (
+                          <UiPlainButton className="inner is-quote" onClick={() => handleClickQuote(log)}>
+                            <span className="time">
+                              <i className="fa fa-quote-left" /> {toReadableTime(log.quote.time, { max: 'mm' })}
+                            </span>
+                            <span className="text">{log.quote.text}</span>
+                          </UiPlainButton>
+                        ) : log.message.removed_at != null ? (
+                          <div className="inner is-removed">
+                            <i className="fa fa-ban" /> Message removed
+                          </div>
+                        ) : (
+                          <div className="inner">
+                            {log.message.text}
+                            {log.message.edited_at != null && <span className="edited"> (edited)</span>}
+                            {log.message.current_time != null && (
+                              <UiPlainButton className="position" onClick={() => handleClickMessageTime(log)}>
+                                {getMessagePositionText(log, props.party)}
+                              </UiPlainButton>
+                            )}
+                          </div>
+                        )}
+
+                        {queueStatuses[log.id] === 'pending' && (
+                          <div className="status">
+                            <i className="fa fa-clock-o" /> Sending…
+                          </div>
+                        )}
+
+                        {queueStatuses[log.id] === 'failed' && (
+                          <div className="status">
+                            <i className="fa fa-exclamation-circle" /> Not delivered
+                            <UiPlainButton className="action" onClick={() => queue.retry(log.id)}>
+                              Retry
+                            </UiPlainButton>
+                            <UiPlainButton className="action" onClick={() => handleDiscard(log)}>
+                              Discard
+                            </UiPlainButton>
+                          </div>
+                        )}
+
+                        {/* Logs we're still sending don't have reactions yet, and can't be replied to either. */}
+                        {log.reactions != null && !isRemoved(log) && (
+                          <div className="footer">
+                            <ChatMessageReactions
+                              reactions={log.reactions}
+                              isSelf={isSelf}
+                              onToggle={emoji => handleToggleReaction(log, emoji)}
+                            />
+
+                            <UiPlainButton className="action" title="Reply" onClick={() => handleReply(log)}>
+                              <i className="fa fa-reply" />
+                            </UiPlainButton>
+
+                            {isSelf && log.type === 'message' && (
+                              <React.Fragment>
+                                <UiPlainButton className="action" title="Edit" onClick={() => handleStartEditing(log)}>
+                                  <i className="fa fa-pencil" />
+                                </UiPlainButton>
+
+                                <UiPlainButton className="action" title="Remove" onClick={() => handleRemove(log)}>
+                                  <i className="fa fa-trash" />
+                                </UiPlainButton>
+                              </React.Fragment>
+                            )}
+                          </div>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -432,6 +1095,17 @@ function ChatWidget(props: Props) {
           })}
         </div>
 
+        {isFarFromLatest && !hasUnreadMessages && (
+          <div className="watch-screen-chatbar-unread-note" onClick={handleClickUnreadMessages}>
+            <UiPlainButton type="button" className="note">
+              Jump to latest
+              <span className="icon">
+                <i className="fa fa-angle-double-down" />
+              </span>
+            </UiPlainButton>
+          </div>
+        )}
+
         {hasUnreadMessages && (
           <div className="watch-screen-chatbar-unread-note" onClick={handleClickUnreadMessages}>
             <UiPlainButton type="button" className="note">
@@ -444,7 +1118,45 @@ function ChatWidget(props: Props) {
         )}
       </div>
 
-      <div className="watch-screen-chatbar">
+      <div className={cx('watch-screen-chatbar', { 'is-hidden': tab !== 'chat' })}>
+        {typing.users.length > 0 && (
+          <div className="watch-screen-chatbar-typing">
+            <span className="dots">
+              <span className="dot" />
+              <span className="dot" />
+              <span className="dot" />
+            </span>
+
+            {getTypingText(typing.users)}
+          </div>
+        )}
+
+        {editing != null && (
+          <div className="watch-screen-chatbar-reply">
+            <div className="info">
+              <div className="name">Editing message</div>
+              <div className="text">{editing.message.text}</div>
+            </div>
+
+            <UiPlainButton className="close" title="Cancel editing" onClick={cancelEditing}>
+              <i className="fa fa-close" />
+            </UiPlainButton>
+          </div>
+        )}
+
+        {replyingTo != null && (
+          <div className="watch-screen-chatbar-reply">
+            <div className="info">
+              <div className="name">Replying to {getLogUser(replyingTo).name}</div>
+              <div className="text">{getReplyPreview(replyingTo).text}</div>
+            </div>
+
+            <UiPlainButton className="close" title="Cancel reply" onClick={() => setReplyingTo(null)}>
+              <i className="fa fa-close" />
+            </UiPlainButton>
+          </div>
+        )}
+
         <form onSubmit={handleMessage} className="watch-screen-chatbar-input">
           <TextareaAutosize
             placeholder={`Press / to focus`}
@@ -476,7 +1188,7 @@ function ChatWidget(props: Props) {
  * This will group chat based on the criteria:
  *
  * Suceeding logs
- * Succeeding messages sent by the same user
+ * Succeeding messages (and quotes) sent by the same user
  */
 function groupPartyLogs(logs: AppPartyLog[]): GroupedLog[] {
   if (logs.length === 0) {
@@ -487,8 +1199,8 @@ function groupPartyLogs(logs: AppPartyLog[]): GroupedLog[] {
 
   const groups: GroupedLog[] = [
     {
-      type: first.type,
-      user: first[first.type].user,
+      type: getGroupType(first),
+      user: getLogUser(first),
       logs: [first]
     }
   ]
@@ -500,14 +1212,14 @@ function groupPartyLogs(logs: AppPartyLog[]): GroupedLog[] {
     // We'll add it to the last group if it fits the criteria
     if (
       (log.type === 'activity' && recent.type === log.type) ||
-      (log.type === 'message' && recent.type === log.type && recent.user.id === log.message.user.id)
+      (log.type !== 'activity' && recent.type === 'message' && recent.user.id === getLogUser(log).id)
     ) {
       recent.logs.push(log)
     } else {
       // Otherwise, we'll create a new group and push it there
       groups.push({
-        type: log.type,
-        user: log[log.type].user,
+        type: getGroupType(log),
+        user: getLogUser(log),
         logs: [log]
       })
     }
@@ -516,6 +1228,97 @@ function groupPartyLogs(logs: AppPartyLog[]): GroupedLog[] {
   return groups
 }
 
+/**
+ * Quotes are grouped with messages since they're sent by members as well.
+ */
+function getGroupType(log: AppPartyLog): GroupedLog['type'] {
+  return log.type === 'activity' ? 'activity' : 'message'
+}
+
+function getLogUser(log: AppPartyLog): AppUser {
+  return log[log.type].user
+}
+
+function isRemoved(log: AppPartyLog): boolean {
+  return log.type === 'message' && log.message.removed_at != null
+}
+
+function getReplyPreview(log: AppPartyLog): AppPartyLogReply {
+  const loggable = log.type === 'quote' ? log.quote : log.message
+
+  return {
+    id: log.id,
+    type: log.type === 'quote' ? 'quote' : 'message',
+    text: loggable.text,
+    user: loggable.user
+  }
+}
+
+function getLogVideoId(log: AppPartyLog): AppId | null {
+  if (log.type === 'message') {
+    return log.message.show_video_id
+  }
+
+  if (log.type === 'quote') {
+    return log.quote.show_video_id
+  }
+
+  return null
+}
+
+/**
+ * at 12:34
+ * at 12:34 (Ep 3)
+ */
+function getMessagePositionText(log: AppPartyLog, party: AppParty): string {
+  const time = `at ${toReadableTime(log.message.current_time, { max: 'mm' })}`
+
+  if (party.video.show.title_type !== 'series' || log.message.video == null) {
+    return time
+  }
+
+  return `${time} (${getShortVideoTitle(log.message.video)})`
+}
+
+/**
+ * Waiting for Alex
+ * Waiting for Alex and Sam
+ * Waiting for Alex, Sam, and 2 others
+ */
+function getWaitingText(members: AppPartyMember[]): string {
+  if (members.length === 0) {
+    return 'Waiting for everyone to catch up'
+  }
+
+  if (members.length === 1) {
+    return `Waiting for ${members[0].name}`
+  }
+
+  if (members.length === 2) {
+    return `Waiting for ${members[0].name} and ${members[1].name}`
+  }
+
+  const others = members.length - 2
+  return `Waiting for ${members[0].name}, ${members[1].name}, and ${others} ${others === 1 ? 'other' : 'others'}`
+}
+
+/**
+ * Sam is typing…
+ * Sam and Alex are typing…
+ * 3 people are typing…
+ */
+function getTypingText(users: AppUser[]): string {
+  if (users.length === 1) {
+    return `${users[0].name} is typing…`
+  }
+
+  if (users.length === 2) {
+    return `${users[0].name} and ${users[1].name} are typing…`
+  }
+
+  return `${users.length} people are typing…`
+}
+
 function scrollToBottom(el: HTMLElement, opts: { treshold?: number } = {}) {
   const treshold = opts.treshold || 0
   el.scrollTop = getScrollableContainerHeight(el) - treshold
@@ -23,6 +23,12 @@ const shortcuts: Shortcut[] = [
   { name: 'Open keyboard shortcuts info', combo: '?' },
   { name: 'Increase volume', combo: '↑' },
   { name: 'Decrease volume', combo: '↓' },
+  { name: 'Increase playback speed', combo: '>' },
+  { name: 'Decrease playback speed', combo: '<' },
+  { name: 'Show subtitles later by 0.1 seconds', combo: 'H' },
+  { name: 'Show subtitles earlier by 0.1 seconds', combo: 'G' },
+  { name: 'Quote the subtitle on screen in chat', combo: 'Q' },
+  { name: 'Send a reaction over the video', combo: '1 - 6' },
 ]
 
 function PlayerKeyboardInfoModal(props: Props) {
@@ -0,0 +1,145 @@
+import './style.css'
+import * as React from 'react'
+import UiAvatar from '~/components/UiAvatar'
+import UiModal from '~/components/UiModal'
+import UiPlainButton from '~/components/UiPlainButton'
+import UiSelect from '~/components/UiSelect'
+import axios from '~/lib/axios'
+import { useAuth } from '~/contexts/Auth'
+import { usePartyContext } from '~/screens/app.watch/Context'
+
+interface Props {
+  party: AppParty
+  isOpen: boolean
+  onClose: () => void
+}
+
+type Control = 'playback_control' | 'video_control'
+
+const controls: { value: AppPartyControl; label: string }[] = [
+  { value: 'everyone', label: 'Everyone' },
+  { value: 'co-hosts', label: 'Host and co-hosts' },
+  { value: 'host', label: 'Host only' }
+]
+
+const roles: { value: AppPartyRole; label: string }[] = [
+  { value: 'host', label: 'Host' },
+  { value: 'co-host', label: 'Co-host' },
+  { value: 'viewer', label: 'Viewer' }
+]
+
+/**
+ * Lets the host decide who gets to control the party.
+ */
+function PartySettingsModal(props: Props) {
+  const auth = useAuth()
+  const context = usePartyContext()
+
+  async function handleChangeControl(control: Control, evt: React.ChangeEvent<HTMLSelectElement>) {
+    const settings: Partial<AppPartySettings> = {
+      [control]: evt.currentTarget.value as AppPartyControl
+    }
+
+    const [err] = await axios.put(`/api/parties/${props.party.id}/settings`, settings)
+
+    if (err) {
+      return
+    }
+
+    context.onUpdateSettings(settings)
+  }
+
+  async function handleChangeRole(member: AppPartyMember, evt: React.ChangeEvent<HTMLSelectElement>) {
+    const role = evt.currentTarget.value as AppPartyRole
+
+    const [err] = await axios.put(`/api/parties/${props.party.id}/members/${member.id}/role`, { role })
+
+    if (err) {
+      return
+    }
+
+    context.onUpdateRole(member.id, role)
+
+    // There's only one host; we'll step down to a co-host.
+    if (role === 'host') {
+      context.onUpdateRole(auth.data.id, 'co-host')
+      props.onClose()
+    }
+  }
+
+  return (
+    <UiModal
+      isOpen={props.isOpen}
+      onClose={props.onClose}
+      overlayClassName="app-watch-party-settings-overlay"
+      modalClassName="app-watch-party-settings-modal">
+      <div className="heading">
+        <h5 className="ui-subheading">Party Settings</h5>
+
+        <UiPlainButton className="close" onClick={props.onClose}>
+          <i className="fa fa-close" />
+        </UiPlainButton>
+      </div>
+
+      <div className="app-watch-party-settings-item">
+        <div className="description">Who can play, pause, or seek</div>
+
+        <div className="control">
+          <UiSelect
+            value={props.party.playback_control}
+            onChange={evt => handleChangeControl('playback_control', evt)}>
+            {controls.map(control => (
+              <option value={control.value} key={control.value}>
+                {control.label}
+              </option>
+            ))}
+          </UiSelect>
+        </div>
+      </div>
+
+      <div className="app-watch-party-settings-item">
+        <div className="description">Who can change the video</div>
+
+        <div className="control">
+          <UiSelect value={props.party.video_control} onChange={evt => handleChangeControl('video_control', evt)}>
+            {controls.map(control => (
+              <option value={control.value} key={control.value}>
+                {control.label}
+              </option>
+            ))}
+          </UiSelect>
+        </div>
+      </div>
+
+      <div className="app-watch-party-settings-subheading">
+        <h6 className="ui-subheading">Members</h6>
+      </div>
+
+      {props.party.members.map(member => (
+        <div className="app-watch-party-settings-item" key={member.id}>
+          <div className="avatar">
+            <UiAvatar user={member} size="sm" />
+          </div>
+
+          <div className="description">{member.name}</div>
+
+          <div className="control">
+            {member.id === auth.data.id ? (
+              <h6 className="ui-subheading">You</h6>
+            ) : (
+              <UiSelect value={member.pivot.role} onChange={evt => handleChangeRole(member, evt)}>
+                {roles.map(role => (
+                  <option value={role.value} key={role.value}>
+                    {role.label}
+                  </option>
+                ))}
+              </UiSelect>
+            )}
+          </div>
+        </div>
+      ))}
+    </UiModal>
+  )
+}
+
+export default PartySettingsModal
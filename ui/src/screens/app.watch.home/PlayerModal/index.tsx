@@ -7,15 +7,24 @@ import UiPlainButton from '~/components/UiPlainButton'
 import toReadableTime from '~/utils/date/toReadableTime'
 import getVideoDetails from '~/utils/shows/getVideoDetails'
 import { Link } from 'react-router-dom'
+import { toast } from '~/components/Toast'
 import { useMediaMode } from '~/hooks/useMediaMode'
 import { useFullscreen } from '~/hooks/useFullscreen'
 import { usePlayerHotkeys } from '../usePlayerHotkeys'
 import PlayerSeeker from '../PlayerSeeker'
 import VolumeControl from '../VolumeControl'
+import SpeedControl from '../SpeedControl'
+import ReactionControl from '../ReactionControl'
+import SyncHealthIndicator from '../SyncHealthIndicator'
+import SubtitleMenu from '../SubtitleMenu'
 import PlayerTooltip from '../PlayerTooltip'
+import { PartyPermissions } from '~/utils/parties/getPartyPermissions'
+import playbackRates from '~/utils/parties/playbackRates'
 
 interface Props {
   party: AppParty
+  permissions: PartyPermissions
+  offsets: { [id: string]: number }
   time: number
   volume: number
   getVideoElement: () => HTMLVideoElement
@@ -26,23 +35,38 @@ interface Props {
   isSeasonSelectionOpen: boolean
   isInvitationOpen: boolean
   isKeyboardInfoOpen: boolean
-  isSubtitleEnabled: boolean
+  isPartySettingsOpen: boolean
+  subtitle: AppShowVideoSubtitle | null
+  // In seconds; positive delays show subtitles later.
+  subtitleDelay: number
+  isWaitingForEveryone: boolean
+  isReactionOverlayEnabled: boolean
   onClose: () => void
   onPlay: () => void
   onSeek: (time: number) => void
+  onChangeRate: (rate: number) => void
+  onResync: () => Promise<void>
   onOpenSeasonSelection: () => void
   onOpenKeyboardInfo: () => void
   onCloseKeyboardInfo: () => void
+  onOpenPartySettings: () => void
   onChangeVolume: (volume: number) => void
   onToggleChat: () => void
   onToggleMute: () => void
-  onToggleSubtitle: () => void
+  onChangeSubtitleLanguage: (language: string) => void
+  onChangeSubtitleDelay: (delay: number) => void
+  onQuoteSubtitle: () => void
+  onReact: (emoji: string) => void
+  onToggleReactionOverlay: () => void
+  onToggleWaitForEveryone: () => void
 }
 
+const SUBTITLE_DELAY_STEP = 0.1
+
 /**
  * @TODO We might not need to use a modal here since it's only an overlay on desktop screens.
  */
-function PlayerModal({ party, ...props }: Props) {
+function PlayerModal({ party, permissions, ...props }: Props) {
   const overlayRef = useRef<HTMLDivElement>()
   const media = useMediaMode()
   const [isFullscreen, toggleIsFullsceen] = useFullscreen()
@@ -68,7 +92,33 @@ function PlayerModal({ party, ...props }: Props) {
 
   usePlayerHotkeys({
     isDisabled() {
-      return props.isSeasonSelectionOpen || props.isInvitationOpen || props.isKeyboardInfoOpen
+      return (
+        props.isSeasonSelectionOpen || props.isInvitationOpen || props.isKeyboardInfoOpen || props.isPartySettingsOpen
+      )
+    },
+    isPlaybackDisabled() {
+      return !permissions.canControlPlayback
+    },
+    onPlaybackDisabled() {
+      toast(permissions.playbackReason)
+    },
+    onIncreaseSpeed() {
+      handleStepRate(1)
+    },
+    onDecreaseSpeed() {
+      handleStepRate(-1)
+    },
+    onIncreaseSubtitleDelay() {
+      props.onChangeSubtitleDelay(props.subtitleDelay + SUBTITLE_DELAY_STEP)
+    },
+    onDecreaseSubtitleDelay() {
+      props.onChangeSubtitleDelay(props.subtitleDelay - SUBTITLE_DELAY_STEP)
+    },
+    onQuoteSubtitle() {
+      props.onQuoteSubtitle()
+    },
+    onReact(emoji: string) {
+      props.onReact(emoji)
     },
     onFullscreen() {
       toggleIsFullsceen()
@@ -103,6 +153,30 @@ function PlayerModal({ party, ...props }: Props) {
     }
   })
 
+  const playbackActionClassName = cx('watch-player-modal-action-item is-control', {
+    'is-disabled': !permissions.canControlPlayback
+  })
+
+  /**
+   * Explain why the control is disabled instead of describing what it does
+   */
+  function getPlaybackTooltip(text: string): string {
+    return permissions.canControlPlayback ? text : permissions.playbackReason
+  }
+
+  /**
+   * Move to the next faster (1) or slower (-1) speed
+   */
+  function handleStepRate(step: 1 | -1) {
+    const rate = playbackRates[playbackRates.indexOf(party.playback_rate) + step]
+
+    if (rate == null) {
+      return
+    }
+
+    props.onChangeRate(rate)
+  }
+
   function handleForward() {
     props.onSeek(Math.min(props.time + 10, party.video.duration))
   }
@@ -166,11 +240,11 @@ function PlayerModal({ party, ...props }: Props) {
           </Link>
 
           <div className="watch-player-mobile-actions">
-            <UiPlainButton className="action" onClick={handleBackward}>
+            <UiPlainButton className="action" onClick={handleBackward} disabled={!permissions.canControlPlayback}>
               <i className="fa fa-backward" />
             </UiPlainButton>
 
-            <UiPlainButton className="toggle" onClick={props.onPlay}>
+            <UiPlainButton className="toggle" onClick={props.onPlay} disabled={!permissions.canControlPlayback}>
               {props.isPlaying ? (
                 <i className="fa fa-pause" />
               ) : (
@@ -180,7 +254,7 @@ function PlayerModal({ party, ...props }: Props) {
               )}
             </UiPlainButton>
 
-            <UiPlainButton className="action" onClick={handleForward}>
+            <UiPlainButton className="action" onClick={handleForward} disabled={!permissions.canControlPlayback}>
               <i className="fa fa-forward" />
             </UiPlainButton>
           </div>
@@ -194,7 +268,13 @@ function PlayerModal({ party, ...props }: Props) {
                   })}
                 </div>
 
-                <PlayerSeeker time={props.time} duration={party.video.duration} onSeek={props.onSeek} />
+                <PlayerSeeker
+                  time={props.time}
+                  duration={party.video.duration}
+                  disabledReason={permissions.playbackReason}
+                  isDisabled={!permissions.canControlPlayback}
+                  onSeek={props.onSeek}
+                />
 
                 <div className="time">
                   <PlayerTooltip
@@ -216,36 +296,36 @@ function PlayerModal({ party, ...props }: Props) {
             <div className="watch-player-modal-actions">
               <div className="section">
                 <PlayerTooltip
-                  text={props.isPlaying ? 'Pause' : 'Play'}
+                  text={getPlaybackTooltip(props.isPlaying ? 'Pause' : 'Play')}
                   align="left"
                   onOpen={handleOpenTooltip}
                   onClose={handleCloseTooltip}>
-                  <div className="watch-player-modal-action-item is-control">
-                    <UiPlainButton className="icon" onClick={props.onPlay}>
+                  <div className={playbackActionClassName}>
+                    <UiPlainButton className="icon" onClick={props.onPlay} disabled={!permissions.canControlPlayback}>
                       {props.isPlaying ? <i className="fa fa-pause" /> : <i className="fa fa-play" />}
                     </UiPlainButton>
                   </div>
                 </PlayerTooltip>
 
                 <PlayerTooltip
-                  text="Rewind by 10 seconds"
+                  text={getPlaybackTooltip('Rewind by 10 seconds')}
                   align="left"
                   onOpen={handleOpenTooltip}
                   onClose={handleCloseTooltip}>
-                  <div className="watch-player-modal-action-item is-control">
-                    <UiPlainButton className="icon" onClick={handleBackward}>
+                  <div className={playbackActionClassName}>
+                    <UiPlainButton className="icon" onClick={handleBackward} disabled={!permissions.canControlPlayback}>
                       <i className="fa fa-backward" />
                     </UiPlainButton>
                   </div>
                 </PlayerTooltip>
 
                 <PlayerTooltip
-                  text="Forward by 10 seconds"
+                  text={getPlaybackTooltip('Forward by 10 seconds')}
                   align="left"
                   onOpen={handleOpenTooltip}
                   onClose={handleCloseTooltip}>
-                  <div className="watch-player-modal-action-item is-control">
-                    <UiPlainButton className="icon" onClick={handleForward}>
+                  <div className={playbackActionClassName}>
+                    <UiPlainButton className="icon" onClick={handleForward} disabled={!permissions.canControlPlayback}>
                       <i className="fa fa-forward" />
                     </UiPlainButton>
                   </div>
@@ -285,6 +365,24 @@ function PlayerModal({ party, ...props }: Props) {
                   </UiPlainButton>
                 </div> */}
 
+                <div className="watch-player-modal-action-item">
+                  <SyncHealthIndicator members={party.members} offsets={props.offsets} onResync={props.onResync} />
+                </div>
+
+                {permissions.isHost && (
+                  <PlayerTooltip
+                    text="Party settings"
+                    align="right"
+                    onOpen={handleOpenTooltip}
+                    onClose={handleCloseTooltip}>
+                    <div className="watch-player-modal-action-item">
+                      <UiPlainButton className="icon" onClick={props.onOpenPartySettings}>
+                        <i className="fa fa-cog" />
+                      </UiPlainButton>
+                    </div>
+                  </PlayerTooltip>
+                )}
+
                 <PlayerTooltip
                   text="View keyboard shortcuts"
                   align="right"
@@ -297,23 +395,60 @@ function PlayerModal({ party, ...props }: Props) {
                   </div>
                 </PlayerTooltip>
 
-                {Boolean(party.video.subtitle_url) && (
-                  <PlayerTooltip
-                    text={props.isSubtitleEnabled ? 'Disable subtitles' : 'Enable subtitles'}
-                    align="right"
-                    onOpen={handleOpenTooltip}
-                    onClose={handleCloseTooltip}>
-                    <div
-                      className={cx('watch-player-modal-action-item', {
-                        'is-subtitle-disabled': !props.isSubtitleEnabled
-                      })}>
-                      <UiPlainButton className="icon" onClick={props.onToggleSubtitle}>
-                        <i className="fa fa-align-center" />
-                      </UiPlainButton>
-                    </div>
-                  </PlayerTooltip>
+                <div className="watch-player-modal-action-item">
+                  <ReactionControl
+                    isOverlayEnabled={props.isReactionOverlayEnabled}
+                    onReact={props.onReact}
+                    onToggleOverlay={props.onToggleReactionOverlay}
+                    onOpenTooltip={handleOpenTooltip}
+                    onCloseTooltip={handleCloseTooltip}
+                  />
+                </div>
+
+                <div className="watch-player-modal-action-item">
+                  <SpeedControl
+                    rate={party.playback_rate}
+                    isDisabled={!permissions.canControlPlayback}
+                    disabledReason={permissions.playbackReason}
+                    onChangeRate={props.onChangeRate}
+                    onOpenTooltip={handleOpenTooltip}
+                    onCloseTooltip={handleCloseTooltip}
+                  />
+                </div>
+
+                {party.video.subtitles.length > 0 && (
+                  <div className="watch-player-modal-action-item">
+                    <SubtitleMenu
+                      subtitles={party.video.subtitles}
+                      language={props.subtitle ? props.subtitle.language : null}
+                      delay={props.subtitleDelay}
+                      delayStep={SUBTITLE_DELAY_STEP}
+                      onChangeLanguage={props.onChangeSubtitleLanguage}
+                      onChangeDelay={props.onChangeSubtitleDelay}
+                    />
+                  </div>
                 )}
 
+                <PlayerTooltip
+                  text={getPlaybackTooltip(
+                    props.isWaitingForEveryone ? 'Stop waiting for everyone' : 'Wait for everyone while buffering'
+                  )}
+                  align="right"
+                  onOpen={handleOpenTooltip}
+                  onClose={handleCloseTooltip}>
+                  <div
+                    className={cx('watch-player-modal-action-item', {
+                      'is-wait-disabled': !props.isWaitingForEveryone
+                    })}>
+                    <UiPlainButton
+                      className="icon"
+                      onClick={props.onToggleWaitForEveryone}
+                      disabled={!permissions.canControlPlayback}>
+                      <i className="fa fa-hourglass-half" />
+                    </UiPlainButton>
+                  </div>
+                </PlayerTooltip>
+
                 {party.video.show.title_type === 'series' && (
                   <PlayerTooltip
                     text="Open Episode Selection"
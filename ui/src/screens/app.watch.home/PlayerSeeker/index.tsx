@@ -4,10 +4,13 @@ import { useState, useRef, useMemo } from 'react'
 import UiInputSlider from '~/components/UiInputSlider'
 import toReadableTime from '~/utils/date/toReadableTime'
 import clamp from '~/utils/clamp'
+import cx from 'classnames'
 
 interface Props {
   time: number
   duration: number
+  isDisabled: boolean
+  disabledReason: string
   onSeek: (time: number) => void
 }
 
@@ -26,6 +29,10 @@ function PlayerSeeker(props: Props) {
   }, [percentage])
 
   function handleSeek(time: number) {
+    if (props.isDisabled) {
+      return
+    }
+
     props.onSeek(time)
   }
 
@@ -42,11 +49,15 @@ function PlayerSeeker(props: Props) {
 
   return (
     <div
-      className="slider app-watch-player-seeker"
+      className={cx('slider app-watch-player-seeker', {
+        'is-disabled': props.isDisabled
+      })}
       ref={containerRef}
       onMouseMove={handleMouseMove}
       onMouseLeave={handleMouseLeave}>
-      {percentage != -1 && (
+      {percentage != -1 && props.isDisabled && <div className="reason">{props.disabledReason}</div>}
+
+      {percentage != -1 && !props.isDisabled && (
         <div className="time" style={{ transform: `translateX(${translateX})` }}>
           {toReadableTime(props.duration * percentage, {
             max: props.duration > 3600 ? 'hh' : 'mm'
@@ -70,7 +81,7 @@ function PlayerSeeker(props: Props) {
             width: '100%',
             height: 8,
             background: 'var(--color-black-4)',
-            cursor: 'pointer'
+            cursor: props.isDisabled ? 'not-allowed' : 'pointer'
           }
         }}
       />
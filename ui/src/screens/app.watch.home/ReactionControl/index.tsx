@@ -0,0 +1,43 @@
+import './style.css'
+import * as React from 'react'
+import cx from 'classnames'
+import UiPlainButton from '~/components/UiPlainButton'
+import PlayerTooltip from '../PlayerTooltip'
+import reactionEmojis from '~/utils/parties/reactionEmojis'
+
+interface Props {
+  isOverlayEnabled: boolean
+  onReact: (emoji: string) => void
+  onToggleOverlay: () => void
+  onOpenTooltip: () => void
+  onCloseTooltip: () => void
+}
+
+function ReactionControl(props: Props) {
+  return (
+    <div className="app-watch-reaction-control-action">
+      <div className="options">
+        {reactionEmojis.map((emoji, i) => (
+          <UiPlainButton className="option" title={`Press ${i + 1}`} onClick={() => props.onReact(emoji)} key={emoji}>
+            {emoji}
+          </UiPlainButton>
+        ))}
+
+        <UiPlainButton
+          className={cx('toggle', { 'is-disabled': !props.isOverlayEnabled })}
+          title={props.isOverlayEnabled ? 'Hide reactions' : 'Show reactions'}
+          onClick={props.onToggleOverlay}>
+          <i className={cx('fa', { 'fa-eye': props.isOverlayEnabled, 'fa-eye-slash': !props.isOverlayEnabled })} />
+        </UiPlainButton>
+      </div>
+
+      <PlayerTooltip text="Reactions" align="right" onOpen={props.onOpenTooltip} onClose={props.onCloseTooltip}>
+        <div className="current">
+          <i className="fa fa-smile-o" />
+        </div>
+      </PlayerTooltip>
+    </div>
+  )
+}
+
+export default ReactionControl
@@ -0,0 +1,28 @@
+import './style.css'
+import * as React from 'react'
+import UiAvatar from '~/components/UiAvatar'
+import { ReactionBurst } from '../usePartyReactions'
+
+interface Props {
+  bursts: ReactionBurst[]
+}
+
+function ReactionOverlay(props: Props) {
+  return (
+    <div className="app-watch-reaction-overlay">
+      {props.bursts.map(burst => (
+        <div className="burst" style={{ left: `${burst.left}%` }} key={burst.id}>
+          <span className="emoji">{burst.emoji}</span>
+
+          {burst.user != null && (
+            <span className="avatar">
+              <UiAvatar user={burst.user} size="sm" />
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default ReactionOverlay
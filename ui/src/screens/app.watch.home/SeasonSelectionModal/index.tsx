@@ -6,9 +6,12 @@ import UiPlainButton from '~/components/UiPlainButton'
 import SeasonSelection from '~/components/SeasonSelection'
 import axios from '~/lib/axios' 
 import { useMediaMode } from '~/hooks/useMediaMode'
+import { toast } from '~/components/Toast'
+import { PartyPermissions } from '~/utils/parties/getPartyPermissions'
 
 interface Props {
   party: AppParty
+  permissions: PartyPermissions
   show: AppShow | null
   isOpen: boolean
   onClose: () => void
@@ -22,6 +25,10 @@ interface Props {
  */
 function ShowModal(props: Props) {
   async function handleVideoClick(video: AppShowVideo) {
+    if (!props.permissions.canChangeVideo) {
+      return toast(props.permissions.videoReason)
+    }
+
     const [err, res] = await axios.put(`/api/parties/${props.party.id}/change-video`, {
       show_video_id: video.id
     })
@@ -58,6 +65,10 @@ function ShowModal(props: Props) {
               </UiPlainButton>
             </div>
 
+            {!props.permissions.canChangeVideo && (
+              <div className="watch-home-season-selection-note">{props.permissions.videoReason}</div>
+            )}
+
             <SeasonSelection show={props.show} currentVideo={props.party.video} onEpisodeClick={handleVideoClick} mode={media === 'desktop' ? 'light' : 'dark'} />
           </React.Fragment>
         )}
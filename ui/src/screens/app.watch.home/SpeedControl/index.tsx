@@ -0,0 +1,46 @@
+import './style.css'
+import * as React from 'react'
+import cx from 'classnames'
+import UiPlainButton from '~/components/UiPlainButton'
+import PlayerTooltip from '../PlayerTooltip'
+import playbackRates from '~/utils/parties/playbackRates'
+
+interface Props {
+  rate: number
+  isDisabled: boolean
+  disabledReason: string
+  onChangeRate: (rate: number) => void
+  onOpenTooltip: () => void
+  onCloseTooltip: () => void
+}
+
+function SpeedControl(props: Props) {
+  return (
+    <div
+      className={cx('app-watch-speed-control-action', {
+        'is-disabled': props.isDisabled
+      })}>
+      <div className="options">
+        {playbackRates.map(rate => (
+          <UiPlainButton
+            className={cx('option', { 'is-active': rate === props.rate })}
+            onClick={() => props.onChangeRate(rate)}
+            disabled={props.isDisabled}
+            key={rate}>
+            {rate}x
+          </UiPlainButton>
+        ))}
+      </div>
+
+      <PlayerTooltip
+        text={props.isDisabled ? props.disabledReason : 'Playback speed'}
+        align="right"
+        onOpen={props.onOpenTooltip}
+        onClose={props.onCloseTooltip}>
+        <div className="current">{props.rate}x</div>
+      </PlayerTooltip>
+    </div>
+  )
+}
+
+export default SpeedControl
@@ -0,0 +1,28 @@
+import './style.css'
+import * as React from 'react'
+import useUpdateEffect from 'react-use/lib/useUpdateEffect'
+import { useBufferState } from '~/hooks/useBufferState'
+import getSubtitleDelayText from '~/utils/shows/getSubtitleDelayText'
+
+interface Props {
+  delay: number
+}
+
+/**
+ * Briefly announce the subtitle delay whenever it's adjusted
+ */
+function SubtitleDelayIndicator(props: Props) {
+  const [isOpen, setIsOpen] = useBufferState({ timeout: 1500 })
+
+  useUpdateEffect(() => {
+    setIsOpen()
+  }, [props.delay])
+
+  if (!isOpen) {
+    return null
+  }
+
+  return <div className="app-watch-subtitle-delay-indicator">Subtitle delay {getSubtitleDelayText(props.delay)}</div>
+}
+
+export default SubtitleDelayIndicator
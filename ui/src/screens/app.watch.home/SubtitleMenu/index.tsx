@@ -0,0 +1,66 @@
+import './style.css'
+import * as React from 'react'
+import cx from 'classnames'
+import UiPlainButton from '~/components/UiPlainButton'
+import getSubtitleDelayText from '~/utils/shows/getSubtitleDelayText'
+
+interface Props {
+  subtitles: AppShowVideoSubtitle[]
+  // The language of the subtitle being shown; null if subtitles are off.
+  language: string | null
+  // In seconds; positive delays show subtitles later.
+  delay: number
+  delayStep: number
+  onChangeLanguage: (language: string) => void
+  onChangeDelay: (delay: number) => void
+}
+
+function SubtitleMenu(props: Props) {
+  return (
+    <div
+      className={cx('app-watch-subtitle-menu', {
+        'is-disabled': props.language == null
+      })}>
+      <div className="icon">
+        <i className="fa fa-align-center" />
+      </div>
+
+      <div className="panel">
+        <h6 className="ui-subheading heading">Subtitles</h6>
+
+        <UiPlainButton
+          className={cx('option', { 'is-active': props.language == null })}
+          onClick={() => props.onChangeLanguage('off')}>
+          Off
+        </UiPlainButton>
+
+        {props.subtitles.map(subtitle => (
+          <UiPlainButton
+            className={cx('option', { 'is-active': props.language === subtitle.language })}
+            onClick={() => props.onChangeLanguage(subtitle.language)}
+            key={subtitle.id}>
+            {subtitle.label}
+          </UiPlainButton>
+        ))}
+
+        <h6 className="ui-subheading heading">Delay</h6>
+
+        <div className="delay">
+          <UiPlainButton className="step" onClick={() => props.onChangeDelay(props.delay - props.delayStep)}>
+            <i className="fa fa-minus" />
+          </UiPlainButton>
+
+          <UiPlainButton className="value" onClick={() => props.onChangeDelay(0)}>
+            {getSubtitleDelayText(props.delay)}
+          </UiPlainButton>
+
+          <UiPlainButton className="step" onClick={() => props.onChangeDelay(props.delay + props.delayStep)}>
+            <i className="fa fa-plus" />
+          </UiPlainButton>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default SubtitleMenu
@@ -1,28 +1,27 @@
 import kebabCase from 'lodash.kebabcase'
 
+// Numpad alignment as used by ASS (and SRT files converted from it, e.g., {\an8})
 const raw = {
-  TOP_LEFT_SUBTITLE: '{\\an7}',
-  TOP_CENTER_SUBTITLE: '{\\an8}',
-  TOP_RIGHT_SUBTITLE: '{\\an9}',
-  MIDDLE_LEFT_SUBTITLE: '{\\an4}',
-  MIDDLE_CENTER_SUBTITLE: '{\\an5}',
-  MIDDLE_RIGHT_SUBTITLE: '{\\an6}',
-  BOTTOM_LEFT_SUBTITLE: '{\\an1}',
-  BOTTOM_CENTER_SUBTITLE: '{\\an2}',
-  BOTTOM_RIGHT_SUBTITLE: '{\\an3}',
+  TOP_LEFT_SUBTITLE: 7,
+  TOP_CENTER_SUBTITLE: 8,
+  TOP_RIGHT_SUBTITLE: 9,
+  MIDDLE_LEFT_SUBTITLE: 4,
+  MIDDLE_CENTER_SUBTITLE: 5,
+  MIDDLE_RIGHT_SUBTITLE: 6,
+  BOTTOM_LEFT_SUBTITLE: 1,
+  BOTTOM_CENTER_SUBTITLE: 2,
+  BOTTOM_RIGHT_SUBTITLE: 3,
 }
 
 interface SubtitlePlacement {
   className: string
-  indicator: string
+  alignment: number
 }
 
 const placements: SubtitlePlacement[] = Object.keys(raw)
   .map(key => ({
     className: `is-${kebabCase(key)}`,
-    indicator: raw[key]
+    alignment: raw[key]
   }))
 
-const HAS_PLACEMENT_PATTERN = /{\\an\d}/
-
-export { placements, HAS_PLACEMENT_PATTERN }
\ No newline at end of file
+export { placements, SubtitlePlacement }
@@ -2,96 +2,79 @@ import './style'
 
 import * as React from 'react'
 import cx from 'classnames'
-import { useState, useMemo } from 'react'
-import { useAsyncEffect } from 'use-async-effect'
-import axios from '~/lib/axios'
-import { placements, HAS_PLACEMENT_PATTERN } from './constants'
-import { srt2obj, Track } from './utils'
-
-interface State {
-  tracks: Track[]
-}
+import { SubtitleCue, SubtitleMarkupNode } from '~/lib/subtitles'
+import { SubtitleCueIndex } from '~/lib/subtitles/createCueIndex'
+import parseMarkup from '~/lib/subtitles/markup'
+import { placements } from './constants'
+import {
+  groupCues,
+  getSegmentStyle,
+  getPositionStyle,
+  getCueStyle,
+  getTextStyle,
+  getSlotStyle
+} from './utils'
 
 interface Props {
-  video: AppShowVideo
+  index: SubtitleCueIndex
   time: number
-  isEnabled: boolean
+  // In seconds; positive delays show subtitles later.
+  delay: number
+  appearance: AppSubtitleAppearance
   isPlayerOpen: boolean
+  // Clicking a subtitle quotes it in the chat
+  onClick?: () => void
 }
 
 function SubtitleSlot(props: Props) {
-  const [state, setState] = useState<State>(() => ({ tracks: [] }))
-
-  useAsyncEffect(
-    async () => {
-      if (!props.video.subtitle_url) {
-        return
-      }
-
-      const [err, res] = await axios.get(`api/videos/${props.video.id}/subtitle`, {
-        validation: false
-      })
-
-      if (err != null) {
-        return //
-      }
-
-      setState({
-        tracks: srt2obj(res.data.subtitle)
-      })
-    },
-    null,
-    []
-  )
-
-  if (!props.video.subtitle_url) {
+  if (!props.index.cues.length) {
     return null
   }
 
-  if (!state.tracks.length) {
-    return null
-  }
+  // A delayed subtitle shows the cue that was meant for a moment ago.
+  const cues = props.index.getActiveCues(props.time - props.delay)
 
-  if (!props.isEnabled) {
+  if (!cues.length) {
     return null
   }
 
-  const subtitles = state.tracks.filter(track => {
-    return props.time >= track.start && props.time <= track.end
-  })
-
-  if (!subtitles.length) {
-    return null
-  }
+  const groups = groupCues(cues)
 
   return (
     <React.Fragment>
-      {placements.map((placement, i) => {
-        const placementSubtitles = subtitles.filter(subtitle => {
-          // We want to position default tracks (tracks without specified positioning)
-          // to be placed to the bottom center.
-          if (placement.className === 'is-bottom-center-subtitle' && !HAS_PLACEMENT_PATTERN.test(subtitle.text)) {
-            return true
-          }
+      {Boolean(groups.positioned.length) && (
+        <div
+          className={cx('subtitle-slot', 'is-positioned-subtitle', {
+            'is-player-open': props.isPlayerOpen,
+            'is-clickable': props.onClick != null
+          })}>
+          {groups.positioned.map(cue => (
+            <p className="subtitle" key={cue.id} style={{ ...getCueStyle(props.appearance), ...getPositionStyle(cue) }}>
+              <span className="text" style={getTextStyle(props.appearance)} onClick={props.onClick}>
+                <CueText cue={cue} />
+              </span>
+            </p>
+          ))}
+        </div>
+      )}
 
-          return subtitle.text.includes(placement.indicator)
-        })
+      {placements.map((placement, i) => {
+        const placementCues = groups.placements[placement.className] || []
 
         const className = cx('subtitle-slot', {
           'is-player-open': props.isPlayerOpen,
+          'is-clickable': props.onClick != null,
           [placement.className]: true
         })
 
         return (
-          <div key={placement.className} className={className}>
-            {placementSubtitles.map(subtitle => (
-              <p
-                className="subtitle"
-                key={subtitle.index}
-                dangerouslySetInnerHTML={{
-                  __html: subtitle.text.replace('\n', '<br />').replace(placement.indicator, '')
-                }}
-              />
+          <div key={placement.className} className={className} style={getSlotStyle(placement, props.appearance)}>
+            {placementCues.map(cue => (
+              <p className="subtitle" key={cue.id} style={getCueStyle(props.appearance)}>
+                <span className="text" style={getTextStyle(props.appearance)} onClick={props.onClick}>
+                  <CueText cue={cue} />
+                </span>
+              </p>
             ))}
           </div>
         )
@@ -100,4 +83,76 @@ function SubtitleSlot(props: Props) {
   )
 }
 
+/**
+ * ASS cues come with their own styles per segment; SRT and WebVTT cues may contain HTML-like tags (<i>, <font>).
+ */
+function CueText({ cue }: { cue: SubtitleCue }) {
+  if (cue.segments == null) {
+    return <Markup nodes={parseMarkup(cue.text)} />
+  }
+
+  return (
+    <React.Fragment>
+      {cue.segments.map((segment, i) => (
+        <span key={i} style={getSegmentStyle(segment.style)}>
+          <Lines text={segment.text} />
+        </span>
+      ))}
+    </React.Fragment>
+  )
+}
+
+/**
+ * Render the formatting tags as elements. Text is never parsed as HTML, so markup in a subtitle file can't run.
+ */
+function Markup({ nodes }: { nodes: SubtitleMarkupNode[] }) {
+  return (
+    <React.Fragment>
+      {nodes.map((node, i) => {
+        switch (node.type) {
+          case 'text':
+            return <Lines text={node.text} key={i} />
+          case 'i':
+            return (
+              <i key={i}>
+                <Markup nodes={node.children} />
+              </i>
+            )
+          case 'b':
+            return (
+              <b key={i}>
+                <Markup nodes={node.children} />
+              </b>
+            )
+          case 'u':
+            return (
+              <u key={i}>
+                <Markup nodes={node.children} />
+              </u>
+            )
+          case 'font':
+            return (
+              <span style={{ color: node.color }} key={i}>
+                <Markup nodes={node.children} />
+              </span>
+            )
+        }
+      })}
+    </React.Fragment>
+  )
+}
+
+function Lines({ text }: { text: string }) {
+  return (
+    <React.Fragment>
+      {text.split('\n').map((line, i) => (
+        <React.Fragment key={i}>
+          {i > 0 && <br />}
+          {line}
+        </React.Fragment>
+      ))}
+    </React.Fragment>
+  )
+}
+
 export default SubtitleSlot
@@ -1,28 +1,151 @@
-import s2o, { OriginalTrack } from '~/lib/srt2obj'
-import fromReadableTime from '~/utils/date/fromReadableTime'
+import * as React from 'react'
+import kebabCase from 'lodash.kebabcase'
+import { SubtitleCue, SubtitleTextStyle } from '~/lib/subtitles'
+import { placements, SubtitlePlacement } from './constants'
 
-export interface Track {
-  index: string
-  timestamp: string
-  start: number
-  end: number
-  text: string
+const outlines: { [outline: string]: number[][] } = {
+  none: [],
+  thin: [[-1, -1], [1, -1], [-1, 1], [1, 1]],
+  thick: [[-2, -2], [2, -2], [-2, 2], [2, 2], [0, -2], [0, 2], [-2, 0], [2, 0]]
+}
+
+interface CueGroups {
+  // Cues positioned with ASS's \pos are placed on their own instead of being stacked in a slot
+  positioned: SubtitleCue[]
+  placements: { [className: string]: SubtitleCue[] }
+}
+
+/**
+ * Sort the active cues into their slots in one go. ASS cues on higher layers are drawn over the lower ones.
+ */
+export function groupCues(cues: SubtitleCue[]): CueGroups {
+  const groups: CueGroups = { positioned: [], placements: {} }
+
+  cues
+    .slice()
+    .sort((a, b) => (a.layer || 0) - (b.layer || 0))
+    .forEach(cue => {
+      if (cue.position != null) {
+        groups.positioned.push(cue)
+        return
+      }
+
+      const className = getPlacementClassName(cue)
+      groups.placements[className] = groups.placements[className] || []
+      groups.placements[className].push(cue)
+    })
+
+  return groups
 }
 
 /**
- * Transforms start & end from time string to number
- *
- * { start: '00:00:03,300' } -> { start: 3 }
- * { end: '00:00:04,000' } -> { end: 4 }
+ * Get the placement class name of a cue, from its alignment ({\an8}) or WebVTT settings (line:0 align:start).
+ * Cues without any positioning are placed to the bottom center.
  */
-export function srt2obj(str: string): Track[] {
-  const result: OriginalTrack[] = s2o(str)
-
-  return result.map((track: OriginalTrack) => {
-    return {
-      ...track,
-      start: fromReadableTime(track.start),
-      end: fromReadableTime(track.end)
-    }
-  })
-}
\ No newline at end of file
+export function getPlacementClassName(cue: SubtitleCue): string {
+  const placement = placements.find(placement => placement.alignment === cue.alignment)
+
+  if (placement) {
+    return placement.className
+  }
+
+  return `is-${kebabCase(`${getVerticalPlacement(cue)} ${getHorizontalPlacement(cue)} subtitle`)}`
+}
+
+/**
+ * Raise bottom subtitles as far as the member wants (e.g., above burned-in captions)
+ */
+export function getSlotStyle(placement: SubtitlePlacement, appearance: AppSubtitleAppearance): React.CSSProperties {
+  return placement.alignment <= 3 && appearance.position > 0 ? { bottom: `${appearance.position}%` } : {}
+}
+
+/**
+ * Get the styles from the member's appearance settings. Sizes are relative to the slot's size
+ * so they still scale with the screen.
+ */
+export function getCueStyle(appearance: AppSubtitleAppearance): React.CSSProperties {
+  return {
+    fontSize: `${appearance.fontScale}em`,
+    color: appearance.color,
+    textShadow: appearance.outline === 'none' ? 'none' : getOutline(appearance.outline, 'var(--color-black)')
+  }
+}
+
+export function getTextStyle(appearance: AppSubtitleAppearance): React.CSSProperties {
+  return appearance.backgroundOpacity > 0 ? { backgroundColor: `rgba(0, 0, 0, ${appearance.backgroundOpacity})` } : {}
+}
+
+/**
+ * Get the styles of an ASS cue's text (colors, fonts, etc.)
+ * Font sizes are relative to the slot's size so they scale with the screen.
+ */
+export function getSegmentStyle(style: SubtitleTextStyle): React.CSSProperties {
+  const decorations = [style.isUnderline && 'underline', style.isStrikeOut && 'line-through'].filter(Boolean)
+
+  return {
+    color: style.color,
+    fontFamily: style.fontFamily,
+    fontSize: style.fontScale != null ? `${style.fontScale}em` : undefined,
+    fontWeight: style.isBold ? 'bold' : undefined,
+    fontStyle: style.isItalic ? 'italic' : undefined,
+    textDecoration: decorations.length ? decorations.join(' ') : undefined,
+    textShadow: style.outlineColor ? getOutline('thin', style.outlineColor) : undefined
+  }
+}
+
+/**
+ * Get where an ASS cue with \pos is anchored, as percentages of the video.
+ * The alignment decides which point of the text sits on the position (e.g., 2 is the bottom center).
+ */
+export function getPositionStyle(cue: SubtitleCue): React.CSSProperties {
+  const alignment = cue.alignment || 2
+  // 1, 4, 7 -> 0; 2, 5, 8 -> -50%; 3, 6, 9 -> -100%
+  const x = [0, -50, -100][(alignment - 1) % 3]
+  // 7, 8, 9 -> 0; 4, 5, 6 -> -50%; 1, 2, 3 -> -100%
+  const y = alignment >= 7 ? 0 : alignment >= 4 ? -50 : -100
+
+  return {
+    left: `${cue.position.x}%`,
+    top: `${cue.position.y}%`,
+    transform: `translate(${x}%, ${y}%)`,
+    zIndex: cue.layer
+  }
+}
+
+function getVerticalPlacement(cue: SubtitleCue): string {
+  const { line } = cue.settings
+
+  if (line == null) {
+    return 'bottom'
+  }
+
+  // The line may be followed by its alignment (e.g., 10%,start)
+  const value = line.split(',')[0]
+
+  // Percentages are from the top of the video
+  if (value.endsWith('%')) {
+    const percentage = parseFloat(value)
+    return percentage < 33 ? 'top' : percentage < 66 ? 'middle' : 'bottom'
+  }
+
+  // Line numbers count from the top if positive, and from the bottom if negative
+  return parseInt(value, 10) >= 0 ? 'top' : 'bottom'
+}
+
+function getHorizontalPlacement(cue: SubtitleCue): string {
+  const { align } = cue.settings
+
+  if (align === 'start' || align === 'left') {
+    return 'left'
+  }
+
+  if (align === 'end' || align === 'right') {
+    return 'right'
+  }
+
+  return 'center'
+}
+
+function getOutline(outline: AppSubtitleAppearance['outline'], color: string): string {
+  return outlines[outline].map(([x, y]) => `${x}px ${y}px 0 ${color}`).join(', ')
+}
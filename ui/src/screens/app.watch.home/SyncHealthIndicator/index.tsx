@@ -0,0 +1,66 @@
+import './style.css'
+import * as React from 'react'
+import { useState } from 'react'
+import cx from 'classnames'
+import UiPlainButton from '~/components/UiPlainButton'
+import { useAuth } from '~/contexts/Auth'
+import getSyncHealth from '~/utils/parties/getSyncHealth'
+
+interface Props {
+  members: AppPartyMember[]
+  // How far each member is from the party position, in seconds; includes ours.
+  offsets: { [id: string]: number }
+  onResync: () => Promise<void>
+}
+
+function SyncHealthIndicator(props: Props) {
+  const auth = useAuth()
+
+  const [isResyncing, setIsResyncing] = useState(false)
+
+  const health = getSyncHealth(props.offsets[auth.data.id] || 0)
+
+  const members = props.members.filter(member => {
+    return member.id === auth.data.id || member.pivot.is_active
+  })
+
+  async function handleResync() {
+    if (isResyncing) {
+      return
+    }
+
+    setIsResyncing(true)
+    await props.onResync()
+    setIsResyncing(false)
+  }
+
+  return (
+    <div className="app-watch-sync-health">
+      <div className="summary">
+        <span className={cx('dot', `is-${health.status}`)} />
+        {health.text}
+      </div>
+
+      <div className="panel">
+        {members.map(member => {
+          const offset = props.offsets[member.id]
+          const memberHealth = offset == null ? null : getSyncHealth(offset)
+
+          return (
+            <div className="member" key={member.id}>
+              <span className={cx('dot', memberHealth && `is-${memberHealth.status}`)} />
+              <span className="name">{member.id === auth.data.id ? 'You' : member.name}</span>
+              <span className="offset">{memberHealth ? memberHealth.text : 'Unknown'}</span>
+            </div>
+          )
+        })}
+
+        <UiPlainButton className="resync" onClick={handleResync} disabled={isResyncing}>
+          <i className={cx('fa fa-refresh', { 'fa-spin': isResyncing })} /> Resync to party
+        </UiPlainButton>
+      </div>
+    </div>
+  )
+}
+
+export default SyncHealthIndicator
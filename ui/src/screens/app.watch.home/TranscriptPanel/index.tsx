@@ -0,0 +1,146 @@
+import './style.css'
+import * as React from 'react'
+import cx from 'classnames'
+import { useState, useMemo, useRef, useEffect, useCallback } from 'react'
+import UiPlainButton from '~/components/UiPlainButton'
+import { usePropRef } from '~/hooks/usePropRef'
+import { SubtitleCue } from '~/lib/subtitles'
+import { SubtitleCueIndex } from '~/lib/subtitles/createCueIndex'
+import { toPlainText } from '~/lib/subtitles/markup'
+import toReadableTime from '~/utils/date/toReadableTime'
+
+interface Props {
+  index: SubtitleCueIndex
+  // The member's chosen subtitle; null if they turned subtitles off.
+  subtitle: AppShowVideoSubtitle | null
+  time: number
+  // In seconds; positive delays show subtitles later.
+  delay: number
+  onSeek: (time: number) => void
+}
+
+interface Line {
+  cue: SubtitleCue
+  text: string
+}
+
+// We won't follow the current line for a while after the member scrolls the list themselves.
+const MANUAL_SCROLL_TIMEOUT = 5000
+
+/**
+ * Lists every line of the subtitle so members can find a line and jump back to it together.
+ */
+function TranscriptPanel(props: Props) {
+  const [query, setQuery] = useState('')
+  const listRef = useRef<HTMLDivElement>(null)
+  const lastManualScrollRef = useRef<number>(0)
+  const propsRef = usePropRef(props)
+
+  const lines: Line[] = useMemo(() => {
+    return props.index.cues.map(cue => ({
+      cue,
+      text: toPlainText(cue.text)
+    }))
+  }, [props.index])
+
+  const results = useMemo(() => {
+    const search = query.trim().toLowerCase()
+    return search ? lines.filter(line => line.text.toLowerCase().includes(search)) : lines
+  }, [lines, query])
+
+  // Same time as what SubtitleSlot shows, so the highlight matches the line on screen.
+  const active = props.index.getActiveCues(props.time - props.delay)
+  const current = active.length ? active[active.length - 1].id : null
+
+  useEffect(() => {
+    if (current == null || query || Date.now() - lastManualScrollRef.current < MANUAL_SCROLL_TIMEOUT) {
+      return
+    }
+
+    // The list isn't there while subtitles are off.
+    const el = listRef.current && listRef.current.querySelector('.is-current')
+
+    if (el != null) {
+      el.scrollIntoView({ block: 'center' })
+    }
+  }, [current])
+
+  // Rows are memoized, so they need a callback that doesn't change between renders.
+  const handleSeek = useCallback((cue: SubtitleCue) => {
+    propsRef.current.onSeek(Math.max(0, cue.start + propsRef.current.delay))
+  }, [])
+
+  function handleManualScroll() {
+    lastManualScrollRef.current = Date.now()
+  }
+
+  if (props.subtitle == null) {
+    return (
+      <div className="app-watch-transcript-panel">
+        <div className="empty">Turn on subtitles to see the transcript.</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="app-watch-transcript-panel">
+      <div className="search">
+        <input
+          type="text"
+          className="input"
+          placeholder="Search the transcript"
+          value={query}
+          onChange={evt => setQuery(evt.currentTarget.value)}
+        />
+
+        {Boolean(query) && (
+          <UiPlainButton className="clear" onClick={() => setQuery('')}>
+            <i className="fa fa-close" />
+          </UiPlainButton>
+        )}
+      </div>
+
+      {Boolean(query) && (
+        <div className="summary">
+          <h6 className="ui-subheading">
+            {results.length} {results.length === 1 ? 'line' : 'lines'}
+          </h6>
+        </div>
+      )}
+
+      <div className="list" ref={listRef} onWheel={handleManualScroll} onTouchMove={handleManualScroll}>
+        {results.map(line => (
+          <TranscriptLine
+            line={line}
+            delay={props.delay}
+            isCurrent={line.cue.id === current}
+            onSeek={handleSeek}
+            key={line.cue.id}
+          />
+        ))}
+
+        {!results.length && <div className="empty">No lines match your search.</div>}
+      </div>
+    </div>
+  )
+}
+
+interface LineProps {
+  line: Line
+  delay: number
+  isCurrent: boolean
+  onSeek: (cue: SubtitleCue) => void
+}
+
+const TranscriptLine = React.memo(function TranscriptLine(props: LineProps) {
+  return (
+    <UiPlainButton
+      className={cx('app-watch-transcript-line', { 'is-current': props.isCurrent })}
+      onClick={() => props.onSeek(props.line.cue)}>
+      <span className="time">{toReadableTime(Math.max(0, props.line.cue.start + props.delay), { max: 'mm' })}</span>
+      <span className="text">{props.line.text}</span>
+    </UiPlainButton>
+  )
+})
+
+export default TranscriptPanel
@@ -5,22 +5,43 @@ import cx from 'classnames'
 import BodyClassName from 'react-body-classname'
 import UiLoader from '~/components/UiLoader'
 import PlayerModal from './PlayerModal'
-import ChatWidget from './ChatWidget'
+import ChatWidget, { SubtitleQuote } from './ChatWidget'
 import SubtitleSlot from './SubtitleSlot'
+import SubtitleDelayIndicator from './SubtitleDelayIndicator'
+import ReactionOverlay from './ReactionOverlay'
+import TranscriptPanel from './TranscriptPanel'
 import SeasonSelectionModal from './SeasonSelectionModal'
 import MobileTitleBar from './MobileTitleBar'
 import PlayerStateBufferedIndicator from './PlayerStateBufferedIndicator'
 import KeyboardInfoModal from './KeyboardInfoModal'
+import PartySettingsModal from './PartySettingsModal'
+import { usePartySync } from './usePartySync'
+import { usePartyHeartbeat } from './usePartyHeartbeat'
+import { usePartyOffsetReport } from './usePartyOffsetReport'
+import { useSubtitleCues } from './useSubtitleCues'
+import { usePartyReactions } from './usePartyReactions'
 
 import useUpdateEffect from 'react-use/lib/useUpdateEffect'
-import { useReducer, useEffect, useRef } from 'react'
+import useLocalStorage from 'react-use/lib/useLocalStorage'
+import { useReducer, useEffect, useRef, useMemo, useState } from 'react'
 import { usePartyContext } from '~/screens/app.watch/Context'
+import { useAuth } from '~/contexts/Auth'
 import { useBufferState } from '~/hooks/useBufferState'
 import { useMediaMode } from '~/hooks/useMediaMode'
 import { useRouterBlock } from '~/hooks/useRouterBlock'
+import { useSubtitleAppearance } from '~/hooks/useSubtitleAppearance'
 import axios from '~lib/axios'
+import { AxiosError } from '~/lib/axios/types'
+import { toast } from '~/components/Toast'
 
 import getVideoPreviewImage from '~/utils/shows/getVideoPreviewImage'
+import getSubtitleTrack from '~/utils/shows/getSubtitleTrack'
+import createCueIndex from '~/lib/subtitles/createCueIndex'
+import { toPlainText } from '~/lib/subtitles/markup'
+import uuid from '~/lib/uuid'
+import getPartyPermissions from '~/utils/parties/getPartyPermissions'
+import getStateConflictMessage from '~/utils/parties/getStateConflictMessage'
+import getHeartbeatMember from '~/utils/parties/getHeartbeatMember'
 
 interface State {
   time: number
@@ -34,8 +55,8 @@ interface State {
   isChatOpen: boolean
   isInvitationOpen: boolean
   isKeyboardInfoOpen: boolean
+  isPartySettingsOpen: boolean
   isMuted: boolean
-  isSubtitleEnabled: boolean
 }
 
 type Action =
@@ -54,9 +75,9 @@ type Action =
   | ReducerAction<'season-selection:toggle', { isSeasonSelectionOpen: boolean }>
   | ReducerAction<'invitation-modal:toggle', { isInvitationOpen: boolean }>
   | ReducerAction<'keyboard-info-modal:toggle', { isKeyboardInfoOpen: boolean }>
+  | ReducerAction<'party-settings-modal:toggle', { isPartySettingsOpen: boolean }>
   | ReducerAction<'toggle-chat'>
   | ReducerAction<'toggle-mute'>
-  | ReducerAction<'toggle-subtitle'>
 
 const reducer = (state: State, action: Action): State => {
   switch (action.type) {
@@ -161,24 +182,24 @@ const reducer = (state: State, action: Action): State => {
       }
     }
 
-    case 'toggle-chat': {
+    case 'party-settings-modal:toggle': {
       return {
         ...state,
-        isChatOpen: !state.isChatOpen
+        isPartySettingsOpen: action.payload.isPartySettingsOpen
       }
     }
 
-    case 'toggle-mute': {
+    case 'toggle-chat': {
       return {
         ...state,
-        isMuted: !state.isMuted
+        isChatOpen: !state.isChatOpen
       }
     }
 
-    case 'toggle-subtitle': {
+    case 'toggle-mute': {
       return {
         ...state,
-        isSubtitleEnabled: !state.isSubtitleEnabled
+        isMuted: !state.isMuted
       }
     }
   }
@@ -186,11 +207,9 @@ const reducer = (state: State, action: Action): State => {
   return state
 }
 
-/**
- * @TODO Sync time every 5 minutes or so.
- */
 function AppWatchHome(props: ReactComponentWrapper) {
   const context = usePartyContext()
+  const auth = useAuth()
 
   const [state, dispatch] = useReducer(reducer, {
     time: context.party.current_time,
@@ -204,17 +223,108 @@ function AppWatchHome(props: ReactComponentWrapper) {
     isChatOpen: true,
     isInvitationOpen: false,
     isKeyboardInfoOpen: false,
-    isMuted: false,
-    isSubtitleEnabled: Boolean(context.party.video.subtitle_url)
+    isPartySettingsOpen: false,
+    isMuted: false
   })
 
+  // Each member picks their own language, so two people in the same party can read different subtitles.
+  const [subtitleLanguage, setSubtitleLanguage] = useLocalStorage<string>('app.watch.subtitle-language', 'en')
+
+  const subtitle = useMemo(() => {
+    return getSubtitleTrack(context.party.video, subtitleLanguage)
+  }, [context.party.video, subtitleLanguage])
+
+  // Subtitles from another release are usually off by the same amount throughout, so we'll remember it per video.
+  const [subtitleDelays, setSubtitleDelays] = useLocalStorage<{ [videoId: string]: number }>(
+    'app.watch.subtitle-delays',
+    {}
+  )
+
+  const subtitleDelay = subtitleDelays[context.party.video.id] || 0
+
+  const subtitleCues = useSubtitleCues({
+    video: context.party.video,
+    subtitle
+  })
+
+  const subtitleIndex = useMemo(() => {
+    return createCueIndex(subtitleCues)
+  }, [subtitleCues])
+
+  const [subtitleAppearance] = useSubtitleAppearance()
+
+  // Kept on the device like the rest of the member's viewing preferences
+  const [isReactionOverlayEnabled, setIsReactionOverlayEnabled] = useLocalStorage<boolean>(
+    'app.watch.reaction-overlay',
+    true
+  )
+
+  const reactions = usePartyReactions({
+    party: context.party,
+    isDisabled: !isReactionOverlayEnabled
+  })
+
+  // The subtitle line to post to the chat
+  const [quote, setQuote] = useState<SubtitleQuote | null>(null)
+
   const $video = useRef<HTMLVideoElement>()
 
   const media = useMediaMode()
 
+  const permissions = useMemo(() => {
+    return getPartyPermissions(context.party, auth.data)
+  }, [context.party, auth.data])
+
+  const sync = usePartySync({
+    duration: context.party.video.duration,
+    isDisabled() {
+      return !state.isInitialized || state.isBuffering
+    },
+    getVideoElement() {
+      return $video.current
+    }
+  })
+
+  const heartbeatMember = useMemo(() => {
+    return getHeartbeatMember(context.party, auth.data)
+  }, [context.party, auth.data])
+
+  usePartyHeartbeat({
+    party: context.party,
+    isElected: heartbeatMember != null && heartbeatMember.id === auth.data.id,
+    isDisabled() {
+      return !state.isInitialized || state.isBuffering
+    },
+    getVideoElement() {
+      return $video.current
+    }
+  })
+
+  usePartyOffsetReport({
+    party: context.party,
+    offset: sync.stats.drift,
+    isDisabled() {
+      return !state.isInitialized || state.isBuffering
+    }
+  })
+
+  const offsets = useMemo(() => {
+    return {
+      ...context.offsets,
+      [auth.data.id]: sync.stats.drift
+    }
+  }, [context.offsets, sync.stats.drift, auth.data])
+
   useEffect(() => {
     // Initialize the video to start on the current time.
     $video.current.currentTime = state.time
+
+    sync.setReference({
+      time: context.party.current_time,
+      isPlaying: context.party.is_playing,
+      rate: context.party.playback_rate,
+      timestamp: context.syncedAt
+    })
   }, [])
 
   useUpdateEffect(() => {
@@ -226,8 +336,15 @@ function AppWatchHome(props: ReactComponentWrapper) {
       }
     })
 
-    $video.current.currentTime = context.party.current_time
-  }, [context.party])
+    sync.setReference({
+      time: context.party.current_time,
+      isPlaying: context.party.is_playing,
+      rate: context.party.playback_rate,
+      timestamp: context.syncedAt
+    })
+
+    sync.resync()
+  }, [context.syncedAt, context.resyncs])
 
   useUpdateEffect(() => {
     if (state.isPlaying) {
@@ -257,6 +374,8 @@ function AppWatchHome(props: ReactComponentWrapper) {
     // of videos.
     dispatch({ type: 'change-video' })
 
+    reportBuffering(false)
+
     displayChangeEpisodeBuffer()
   }, [context.party.video.id])
 
@@ -311,6 +430,10 @@ function AppWatchHome(props: ReactComponentWrapper) {
   }
 
   function handleSeek(time: number) {
+    if (!permissions.canControlPlayback) {
+      return toast(permissions.playbackReason)
+    }
+
     dispatch({
       type: 'controls:seek',
       payload: { time }
@@ -318,23 +441,100 @@ function AppWatchHome(props: ReactComponentWrapper) {
 
     $video.current.currentTime = time
 
-    axios.put(`/api/parties/${context.party.id}/state`, {
+    sync.setReference({
+      time,
+      isPlaying: state.isPlaying,
+      rate: context.party.playback_rate,
+      timestamp: Date.now()
+    })
+
+    updatePartyState('state', {
       is_playing: state.isPlaying,
       current_time: time
     })
   }
 
   function handlePlay() {
+    if (!permissions.canControlPlayback) {
+      return toast(permissions.playbackReason)
+    }
+
     dispatch({
       type: 'controls:play'
     })
 
-    axios.put(`/api/parties/${context.party.id}/state`, {
+    sync.setReference({
+      time: state.time,
+      isPlaying: !state.isPlaying,
+      rate: context.party.playback_rate,
+      timestamp: Date.now()
+    })
+
+    updatePartyState('state', {
       is_playing: !state.isPlaying,
       current_time: state.time
     })
   }
 
+  function handleChangeRate(rate: number) {
+    if (!permissions.canControlPlayback) {
+      return toast(permissions.playbackReason)
+    }
+
+    const time = $video.current.currentTime
+
+    sync.setReference({
+      time,
+      isPlaying: state.isPlaying,
+      rate,
+      timestamp: Date.now()
+    })
+
+    sync.resync()
+
+    updatePartyState('rate', {
+      playback_rate: rate,
+      current_time: time
+    })
+  }
+
+  /**
+   * Send our change along with the version we last saw. If someone else got ahead
+   * of us, we'll follow their state instead.
+   */
+  async function updatePartyState(
+    endpoint: 'state' | 'rate',
+    payload: { current_time: number; is_playing?: boolean; playback_rate?: number }
+  ) {
+    const party = context.party
+
+    const [err, res] = await axios.put(`/api/parties/${party.id}/${endpoint}`, {
+      ...payload,
+      version: party.state_version
+    })
+
+    if (err) {
+      const { response } = err as AxiosError<{ state: AppPartyState }>
+
+      if (response && response.status === 409) {
+        const winner = response.data.state
+        context.onSyncState(winner)
+        toast(getStateConflictMessage(party, winner))
+      }
+
+      return
+    }
+
+    context.onCommitState({
+      is_playing: res.data.is_playing,
+      current_time: res.data.current_time,
+      is_waiting: res.data.is_waiting,
+      playback_rate: res.data.playback_rate,
+      version: res.data.state_version,
+      updated_by: res.data.state_updated_by
+    })
+  }
+
   function handleTimeUpdate() {
     dispatch({
       type: 'time-update',
@@ -363,11 +563,37 @@ function AppWatchHome(props: ReactComponentWrapper) {
     [state.isPlaying]
   )
 
+  // Whether we've told the party that we're buffering
+  const isBufferingReportedRef = useRef<boolean>(false)
+
+  function reportBuffering(isBuffering: boolean) {
+    if (isBufferingReportedRef.current === isBuffering) {
+      return
+    }
+
+    // We'll still let the party know when we're done, even if the mode was turned off in the meantime.
+    // Otherwise, we'd keep the party waiting once it's turned back on.
+    if (isBuffering && !context.party.wait_for_everyone) {
+      return
+    }
+
+    isBufferingReportedRef.current = isBuffering
+
+    axios.put(`/api/parties/${context.party.id}/buffering`, {
+      is_buffering: isBuffering,
+      current_time: $video.current.currentTime
+    })
+  }
+
   function handleVideoBufferStart() {
     dispatch({
       type: 'buffer',
       payload: { isBuffering: true }
     })
+
+    if (state.isPlaying) {
+      reportBuffering(true)
+    }
   }
 
   function handleVideoBufferEnd() {
@@ -375,6 +601,31 @@ function AppWatchHome(props: ReactComponentWrapper) {
       type: 'buffer',
       payload: { isBuffering: false }
     })
+
+    reportBuffering(false)
+  }
+
+  function handleVideoCanPlayThrough() {
+    // The party might have paused for us, so `onPlaying` won't fire until it resumes.
+    reportBuffering(false)
+  }
+
+  async function handleToggleWaitForEveryone() {
+    if (!permissions.canControlPlayback) {
+      return toast(permissions.playbackReason)
+    }
+
+    const settings: Partial<AppPartySettings> = {
+      wait_for_everyone: !context.party.wait_for_everyone
+    }
+
+    const [err] = await axios.put(`/api/parties/${context.party.id}/settings`, settings)
+
+    if (err) {
+      return
+    }
+
+    context.onUpdateSettings(settings)
   }
 
   function handleSeasonSelectionOpen() {
@@ -419,6 +670,20 @@ function AppWatchHome(props: ReactComponentWrapper) {
     })
   }
 
+  function handlePartySettingsOpen() {
+    dispatch({
+      type: 'party-settings-modal:toggle',
+      payload: { isPartySettingsOpen: true }
+    })
+  }
+
+  function handlePartySettingsClose() {
+    dispatch({
+      type: 'party-settings-modal:toggle',
+      payload: { isPartySettingsOpen: false }
+    })
+  }
+
   function handleChangeVideo(party: AppParty) {
     dispatch({
       type: 'season-selection:toggle',
@@ -456,9 +721,34 @@ function AppWatchHome(props: ReactComponentWrapper) {
   }
 
 
-  function handleToggleSubtitle() {
-    dispatch({
-      type: 'toggle-subtitle'
+  function handleChangeSubtitleLanguage(language: string) {
+    setSubtitleLanguage(language)
+  }
+
+  function handleQuoteSubtitle() {
+    const cues = subtitleIndex.getActiveCues(state.time - subtitleDelay)
+
+    if (!cues.length) {
+      return toast('There are no subtitles on screen to quote.')
+    }
+
+    setQuote({
+      id: uuid(),
+      text: cues.map(cue => toPlainText(cue.text)).join('\n'),
+      // We'll point to when the line shows up so jumping back doesn't start halfway through it.
+      time: Math.max(0, cues[0].start + subtitleDelay)
+    })
+  }
+
+  function handleToggleReactionOverlay() {
+    setIsReactionOverlayEnabled(!isReactionOverlayEnabled)
+  }
+
+  function handleChangeSubtitleDelay(delay: number) {
+    setSubtitleDelays({
+      ...subtitleDelays,
+      // Avoid floating point leftovers from stepping (e.g., 0.30000000000000004)
+      [context.party.video.id]: Math.round(delay * 10) / 10
     })
   }
 
@@ -491,6 +781,7 @@ function AppWatchHome(props: ReactComponentWrapper) {
               onLoadedData={handleVideoLoadedData}
               onWaiting={handleVideoBufferStart}
               onPlaying={handleVideoBufferEnd}
+              onCanPlayThrough={handleVideoCanPlayThrough}
             />
           </div>
 
@@ -517,11 +808,24 @@ function AppWatchHome(props: ReactComponentWrapper) {
           )}
 
           {state.isInitialized && (
-            <SubtitleSlot video={context.party.video} isEnabled={state.isSubtitleEnabled} isPlayerOpen={state.isOpen} time={state.time} />
+            <SubtitleSlot
+              index={subtitleIndex}
+              delay={subtitleDelay}
+              appearance={subtitleAppearance}
+              isPlayerOpen={state.isOpen}
+              time={state.time}
+              onClick={handleQuoteSubtitle}
+            />
           )}
 
+          <SubtitleDelayIndicator delay={subtitleDelay} />
+
+          {isReactionOverlayEnabled && <ReactionOverlay bursts={reactions.bursts} />}
+
           <PlayerModal
             party={context.party}
+            permissions={permissions}
+            offsets={offsets}
             time={state.time}
             volume={state.volume}
             getVideoElement={() => $video.current}
@@ -532,22 +836,35 @@ function AppWatchHome(props: ReactComponentWrapper) {
             isSeasonSelectionOpen={state.isSeasonSelectionOpen}
             isInvitationOpen={state.isInvitationOpen}
             isKeyboardInfoOpen={state.isKeyboardInfoOpen}
-            isSubtitleEnabled={state.isSubtitleEnabled}
+            isPartySettingsOpen={state.isPartySettingsOpen}
+            subtitle={subtitle}
+            subtitleDelay={subtitleDelay}
+            isWaitingForEveryone={context.party.wait_for_everyone}
+            isReactionOverlayEnabled={isReactionOverlayEnabled}
             onClose={handleOverlayClose}
             onPlay={handlePlay}
             onSeek={handleSeek}
+            onChangeRate={handleChangeRate}
+            onResync={context.onResync}
             onOpenSeasonSelection={handleSeasonSelectionOpen}
             onOpenKeyboardInfo={handleKeyboardInfoOpen}
             onCloseKeyboardInfo={handleKeyboardInfoClose}
+            onOpenPartySettings={handlePartySettingsOpen}
             onChangeVolume={handleChangeVolume}
             onToggleChat={handleToggleChat}
             onToggleMute={handleToggleMute}
-            onToggleSubtitle={handleToggleSubtitle}
+            onChangeSubtitleLanguage={handleChangeSubtitleLanguage}
+            onChangeSubtitleDelay={handleChangeSubtitleDelay}
+            onQuoteSubtitle={handleQuoteSubtitle}
+            onReact={reactions.send}
+            onToggleReactionOverlay={handleToggleReactionOverlay}
+            onToggleWaitForEveryone={handleToggleWaitForEveryone}
           />
 
           <SeasonSelectionModal
             party={context.party}
             show={context.party.video.show}
+            permissions={permissions}
             isOpen={state.isSeasonSelectionOpen}
             onClose={handleSeasonSelectionClose}
             onChangeVideo={handleChangeVideo}
@@ -558,18 +875,38 @@ function AppWatchHome(props: ReactComponentWrapper) {
 
         <ChatWidget
           party={context.party}
+          offsets={offsets}
+          time={state.time}
           isChatOpen={state.isChatOpen}
           isInvitationOpen={state.isInvitationOpen}
           isSeasonSelectionOpen={state.isSeasonSelectionOpen}
           isKeyboardInfoOpen={state.isKeyboardInfoOpen}
+          isPartySettingsOpen={state.isPartySettingsOpen}
           onOpenInvitationModal={handleInvitationOpen}
           onCloseInvitationModal={handleInvitationClose}
+          quote={quote}
+          onSeek={handleSeek}
+          transcript={
+            <TranscriptPanel
+              index={subtitleIndex}
+              subtitle={subtitle}
+              time={state.time}
+              delay={subtitleDelay}
+              onSeek={handleSeek}
+            />
+          }
         />
       </div>
 
       {props.children}
 
       <KeyboardInfoModal isOpen={state.isKeyboardInfoOpen} onClose={handleKeyboardInfoClose} />
+
+      <PartySettingsModal
+        party={context.party}
+        isOpen={state.isPartySettingsOpen}
+        onClose={handlePartySettingsClose}
+      />
     </React.Fragment>
   )
 }
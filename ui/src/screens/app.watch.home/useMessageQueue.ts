@@ -0,0 +1,138 @@
+import { useRef, useEffect } from 'react'
+import useLocalStorage from 'react-use/lib/useLocalStorage'
+import { usePropRef } from '~/hooks/usePropRef'
+import { AxiosError } from '~/lib/axios/types'
+import axios from '~/lib/axios'
+
+interface Props {
+  party: AppParty
+  onSuccess: (id: AppId, log: AppPartyLog) => void
+}
+
+export interface QueuedMessage {
+  // Same as the optimistic log's id. Sent along as `client_id` so resending never posts a message twice.
+  id: AppId
+  payload: {
+    message: string
+    current_time: number
+    reply_to_id: AppId | null
+  }
+  // Kept so we can show the message again if the member reloads before it gets sent
+  log: AppPartyLog
+  // Pending messages are sent automatically; failed ones wait for the member to retry or discard them.
+  status: 'pending' | 'failed'
+}
+
+// How long we'll wait before resending after the server couldn't be reached, doubled every time up to the max
+const RETRY_DELAY = 2000
+const MAX_RETRY_DELAY = 30000
+
+/**
+ * Sends chat messages one at a time, in the order they were written.
+ * The queue is stored on the device so messages written while offline are sent once we're back.
+ *
+ * @usage
+ * const queue = useMessageQueue({ party, onSuccess })
+ * queue.enqueue(log, { message, current_time, reply_to_id })
+ */
+function useMessageQueue(hookProps: Props) {
+  const props = usePropRef(hookProps)
+
+  const [queue, setQueue] = useLocalStorage<QueuedMessage[]>(`app.watch.chat-queue.${hookProps.party.id}`, [])
+
+  // The source of truth while flushing, since the state only catches up after a render.
+  const queueRef = useRef<QueuedMessage[]>(queue)
+
+  const isFlushingRef = useRef<boolean>(false)
+
+  // Timer for resending after a request that never reached the server, and the delay it was set with
+  const retryTimeoutRef = useRef<number>(null)
+  const retryDelayRef = useRef<number>(RETRY_DELAY)
+
+  function update(updater: (queue: QueuedMessage[]) => QueuedMessage[]) {
+    queueRef.current = updater(queueRef.current)
+    setQueue(queueRef.current)
+  }
+
+  async function flush() {
+    // Only one flush at a time; otherwise, we'd send the same message twice or out of order.
+    if (isFlushingRef.current) {
+      return
+    }
+
+    isFlushingRef.current = true
+
+    window.clearTimeout(retryTimeoutRef.current)
+
+    while (navigator.onLine) {
+      const message = queueRef.current.find(message => message.status === 'pending')
+
+      if (message == null) {
+        break
+      }
+
+      const [err, res] = await axios.post(
+        `/api/parties/${props.current.party.id}/logs/message`,
+        { ...message.payload, client_id: message.id },
+        {
+          app: { validation: false }
+        }
+      )
+
+      if (err == null) {
+        retryDelayRef.current = RETRY_DELAY
+        update(queue => queue.filter(m => m.id !== message.id))
+        props.current.onSuccess(message.id, res.data)
+        continue
+      }
+
+      // We couldn't reach the server (e.g., the request timed out or we went offline), so we'll try again in a bit.
+      // If we went offline, we'll try again as soon as we're back online instead.
+      if (!(err as AxiosError).response) {
+        retryTimeoutRef.current = window.setTimeout(flush, retryDelayRef.current)
+        retryDelayRef.current = Math.min(retryDelayRef.current * 2, MAX_RETRY_DELAY)
+        break
+      }
+
+      // The server refused the message, so there's no point sending it again as is.
+      update(queue => queue.map(m => (m.id === message.id ? { ...m, status: 'failed' } : m)))
+    }
+
+    isFlushingRef.current = false
+  }
+
+  useEffect(() => {
+    // Send anything left over from the last visit
+    flush()
+
+    window.addEventListener('online', flush)
+
+    return () => {
+      window.removeEventListener('online', flush)
+      window.clearTimeout(retryTimeoutRef.current)
+    }
+  }, [])
+
+  function enqueue(log: AppPartyLog, payload: QueuedMessage['payload']) {
+    update(queue => [...queue, { id: log.id, payload, log, status: 'pending' }])
+    flush()
+  }
+
+  function retry(id: AppId) {
+    update(queue => queue.map(m => (m.id === id ? { ...m, status: 'pending' } : m)))
+    flush()
+  }
+
+  function discard(id: AppId) {
+    update(queue => queue.filter(m => m.id !== id))
+  }
+
+  return {
+    queue,
+    enqueue,
+    retry,
+    discard
+  }
+}
+
+export { useMessageQueue, useMessageQueue as default }
@@ -0,0 +1,82 @@
+import { useEffect } from 'react'
+import useInterval from '@use-it/interval'
+import { usePropRef } from '~/hooks/usePropRef'
+import axios from '~/lib/axios'
+
+interface Props {
+  party: AppParty
+  // Whether we were elected to report the position for everyone
+  isElected: boolean
+  isDisabled: () => boolean
+  getVideoElement: () => HTMLVideoElement
+}
+
+// Frequent enough for late joiners to land close to everyone, rare enough to not flood the api.
+const HEARTBEAT_INTERVAL = 10000
+
+/**
+ * Reports the playing position through the time endpoint so the party's `current_time`
+ * (and `last_activity_at`) doesn't go stale between explicit plays and seeks.
+ *
+ * Background tabs get their timers throttled, so we'll report once more as the tab gets hidden
+ * and hold off until it's visible again. Likewise, we'll report as soon as we're back online.
+ *
+ * @usage
+ * usePartyHeartbeat({ party, isElected: true, ... })
+ */
+function usePartyHeartbeat(hookProps: Props) {
+  const props = usePropRef(hookProps)
+
+  function beat() {
+    const { party, isElected } = props.current
+    const video = props.current.getVideoElement()
+
+    if (!isElected || !party.is_playing || video == null || video.paused || props.current.isDisabled()) {
+      return
+    }
+
+    if (!navigator.onLine) {
+      return
+    }
+
+    axios.put(
+      `/api/parties/${party.id}/time`,
+      {
+        is_playing: true,
+        current_time: video.currentTime,
+        version: party.state_version
+      },
+      {
+        app: { validation: false }
+      }
+    )
+  }
+
+  useInterval(() => {
+    if (document.hidden) {
+      return
+    }
+
+    beat()
+  }, HEARTBEAT_INTERVAL)
+
+  useEffect(() => {
+    function handleVisibilityChange() {
+      if (document.hidden) {
+        beat()
+      }
+    }
+
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    window.addEventListener('online', beat)
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      window.removeEventListener('online', beat)
+    }
+  }, [])
+
+  return null
+}
+
+export { usePartyHeartbeat, usePartyHeartbeat as default }
@@ -0,0 +1,53 @@
+import useInterval from '@use-it/interval'
+import { useRef } from 'react'
+import { usePropRef } from '~/hooks/usePropRef'
+import axios from '~/lib/axios'
+
+interface Props {
+  party: AppParty
+  // Seconds ahead (positive) or behind (negative) the party
+  offset: number
+  isDisabled: () => boolean
+}
+
+const REPORT_INTERVAL = 5000
+// We'll only bother everyone once our offset moved noticeably.
+const REPORT_THRESHOLD = 0.1
+
+/**
+ * Lets the other members know how far we are from the party position.
+ *
+ * @usage
+ * usePartyOffsetReport({ party, offset: sync.stats.drift, ... })
+ */
+function usePartyOffsetReport(hookProps: Props) {
+  const props = usePropRef(hookProps)
+
+  const reportedRef = useRef<number>(null)
+
+  useInterval(() => {
+    const { party, offset } = props.current
+
+    if (props.current.isDisabled() || document.hidden || !navigator.onLine) {
+      return
+    }
+
+    if (reportedRef.current != null && Math.abs(offset - reportedRef.current) < REPORT_THRESHOLD) {
+      return
+    }
+
+    reportedRef.current = offset
+
+    axios.put(
+      `/api/parties/${party.id}/offset`,
+      { offset },
+      {
+        app: { validation: false }
+      }
+    )
+  }, REPORT_INTERVAL)
+
+  return null
+}
+
+export { usePartyOffsetReport, usePartyOffsetReport as default }
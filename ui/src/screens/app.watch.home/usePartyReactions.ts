@@ -0,0 +1,108 @@
+import { useState, useRef, useEffect } from 'react'
+import { usePropRef } from '~/hooks/usePropRef'
+import { usePusher } from '~/hooks/usePusher'
+import { useAuth } from '~/contexts/Auth'
+import axios from '~/lib/axios'
+import uuid from '~/lib/uuid'
+
+interface Props {
+  party: AppParty
+  // Members who turned the overlay off won't see any reactions, but can still send them.
+  isDisabled: boolean
+}
+
+export interface ReactionBurst {
+  id: string
+  emoji: string
+  user: AppUser | null
+  // Horizontal position over the video, in percent
+  left: number
+}
+
+// How long a reaction floats over the video; keep in sync with the animation in ReactionOverlay.
+const BURST_DURATION = 3000
+// Mashing a number key shouldn't flood everyone's screen (or the api).
+const SEND_INTERVAL = 250
+// We'll drop the oldest reactions if too many are on screen.
+const MAX_BURSTS = 30
+
+/**
+ * Emojis floating over the video sent by members.
+ * These are only broadcasted, and never stored like chat reactions are.
+ *
+ * @usage
+ * const reactions = usePartyReactions({ party, isDisabled: !isOverlayEnabled })
+ * reactions.send('🔥')
+ */
+function usePartyReactions(hookProps: Props) {
+  const auth = useAuth()
+
+  const props = usePropRef(hookProps)
+
+  const [bursts, setBursts] = useState<ReactionBurst[]>([])
+
+  const lastSentRef = useRef<number>(0)
+
+  const timeoutsRef = useRef<number[]>([])
+
+  useEffect(() => {
+    return () => {
+      timeoutsRef.current.forEach(timeout => window.clearTimeout(timeout))
+    }
+  }, [])
+
+  function push(emoji: string, user: AppUser | null) {
+    if (props.current.isDisabled) {
+      return
+    }
+
+    const burst: ReactionBurst = {
+      id: uuid(),
+      emoji,
+      user,
+      // Keep away from the edges so the emoji doesn't get cut off.
+      left: 10 + Math.random() * 80
+    }
+
+    setBursts(bursts => [...bursts, burst].slice(-MAX_BURSTS))
+
+    const timeout = window.setTimeout(() => {
+      timeoutsRef.current = timeoutsRef.current.filter(t => t !== timeout)
+      setBursts(bursts => bursts.filter(b => b.id !== burst.id))
+    }, BURST_DURATION)
+
+    timeoutsRef.current.push(timeout)
+  }
+
+  usePusher(`private-party.${hookProps.party.id}`, 'reaction', (event: { user_id: AppId; emoji: string }) => {
+    const user = props.current.party.members.find(member => member.id === event.user_id)
+    push(event.emoji, user || null)
+  })
+
+  function send(emoji: string) {
+    const now = Date.now()
+
+    if (now - lastSentRef.current < SEND_INTERVAL) {
+      return
+    }
+
+    lastSentRef.current = now
+
+    push(emoji, auth.data)
+
+    axios.post(
+      `/api/parties/${props.current.party.id}/reactions`,
+      { emoji },
+      {
+        app: { validation: false }
+      }
+    )
+  }
+
+  return {
+    bursts,
+    send
+  }
+}
+
+export { usePartyReactions, usePartyReactions as default }
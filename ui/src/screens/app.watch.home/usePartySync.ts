@@ -0,0 +1,155 @@
+import { useRef, useState } from 'react'
+import useInterval from '@use-it/interval'
+import { usePropRef } from '~/hooks/usePropRef'
+import clamp from '~/utils/clamp'
+
+export interface SyncReference {
+  time: number
+  isPlaying: boolean
+  // The party's speed; the position moves this much per second.
+  rate: number
+  // The moment (epoch in ms) the party was at `time`.
+  timestamp: number
+}
+
+export interface SyncStats {
+  // How far ahead (positive) or behind (negative) we are from the party, in seconds.
+  drift: number
+  playbackRate: number
+  // Number of hard seeks we had to make to catch up.
+  seeks: number
+}
+
+interface Props {
+  duration: number
+  isDisabled: () => boolean
+  getVideoElement: () => HTMLVideoElement
+}
+
+// How often we compare our position with the party's position
+const SYNC_INTERVAL = 1000
+// Anything below this is unnoticeable, so we'll leave the video alone.
+const DRIFT_TOLERANCE = 0.3
+// Past this, nudging the playback rate would take too long; we'll seek instead.
+const HARD_SEEK_THRESHOLD = 3
+// We'll never speed up or slow down by more than 10% so nobody hears the chipmunks.
+const MAX_RATE_ADJUSTMENT = 0.1
+const RATE_ADJUSTMENT_PER_SECOND = 0.1
+
+/**
+ * Keeps the video close to the party's authoritative position while playing.
+ * Small drifts are corrected by nudging the `playbackRate`; big ones with a seek.
+ *
+ * @usage
+ * const sync = usePartySync({ ... })
+ * sync.setReference({ time: party.current_time, isPlaying: party.is_playing, rate: party.playback_rate, timestamp: Date.now() })
+ */
+function usePartySync(hookProps: Props) {
+  const props = usePropRef(hookProps)
+
+  const referenceRef = useRef<SyncReference>(null)
+
+  const [stats, setStats] = useState<SyncStats>({
+    drift: 0,
+    playbackRate: 1,
+    seeks: 0
+  })
+
+  /**
+   * Get where the party should be right now
+   */
+  function getExpectedTime(): number {
+    const reference = referenceRef.current
+
+    if (!reference.isPlaying) {
+      return reference.time
+    }
+
+    const elapsed = ((Date.now() - reference.timestamp) / 1000) * reference.rate
+    return clamp(reference.time + elapsed, 0, props.current.duration)
+  }
+
+  function seek(video: HTMLVideoElement, time: number) {
+    const rate = referenceRef.current.rate
+    video.currentTime = time
+    video.playbackRate = rate
+
+    setStats(stats => ({
+      drift: 0,
+      playbackRate: rate,
+      seeks: stats.seeks + 1
+    }))
+  }
+
+  function setReference(reference: SyncReference) {
+    referenceRef.current = reference
+  }
+
+  /**
+   * Snap to the party position right away (e.g., someone else played, paused, or seeked).
+   */
+  function resync() {
+    const video = props.current.getVideoElement()
+
+    if (video == null || referenceRef.current == null) {
+      return
+    }
+
+    const expected = getExpectedTime()
+
+    if (Math.abs(video.currentTime - expected) > DRIFT_TOLERANCE) {
+      seek(video, expected)
+    } else {
+      video.playbackRate = referenceRef.current.rate
+    }
+  }
+
+  useInterval(() => {
+    const video = props.current.getVideoElement()
+    const reference = referenceRef.current
+
+    if (video == null || reference == null || props.current.isDisabled()) {
+      return
+    }
+
+    // The video is being moved around anyway; we'll check again on the next tick.
+    if (video.seeking) {
+      return
+    }
+
+    const drift = video.currentTime - getExpectedTime()
+
+    // We only want to correct while everyone's watching. Play, pause, and seeks
+    // from other members are snapped through `resync` instead.
+    if (video.paused || !reference.isPlaying) {
+      video.playbackRate = reference.rate
+      setStats(stats => ({ ...stats, drift, playbackRate: reference.rate }))
+      return
+    }
+
+    if (Math.abs(drift) > HARD_SEEK_THRESHOLD) {
+      return seek(video, getExpectedTime())
+    }
+
+    // If we're ahead, we'll slow down; if we're behind, we'll speed up. The correction
+    // is relative to the party's speed so the nudge feels the same at any speed.
+    const correction =
+      Math.abs(drift) > DRIFT_TOLERANCE
+        ? 1 - clamp(drift * RATE_ADJUSTMENT_PER_SECOND, -MAX_RATE_ADJUSTMENT, MAX_RATE_ADJUSTMENT)
+        : 1
+
+    const playbackRate = reference.rate * correction
+
+    video.playbackRate = playbackRate
+
+    setStats(stats => ({ ...stats, drift, playbackRate }))
+  }, SYNC_INTERVAL)
+
+  return {
+    stats,
+    setReference,
+    resync
+  }
+}
+
+export { usePartySync, usePartySync as default }
@@ -1,9 +1,12 @@
 import { useEffect } from 'react'
 import { usePropRef } from '~/hooks/usePropRef'
 import isFocusedToInput from '~/utils/dom/isFocusedToInput'
+import reactionEmojis from '~/utils/parties/reactionEmojis'
 
 interface Props {
   isDisabled: () => boolean
+  isPlaybackDisabled: () => boolean
+  onPlaybackDisabled: () => void
   onToggleChat: () => void
   onToggleMute: () => void
   onFullscreen: () => void
@@ -12,6 +15,12 @@ interface Props {
   onBackward: () => void
   onIncreaseVolume: () => void
   onDecreaseVolume: () => void
+  onIncreaseSpeed: () => void
+  onDecreaseSpeed: () => void
+  onIncreaseSubtitleDelay: () => void
+  onDecreaseSubtitleDelay: () => void
+  onQuoteSubtitle: () => void
+  onReact: (emoji: string) => void
   onToggleKeyboardInfo: () => void
 }
 
@@ -21,9 +30,15 @@ const keys = {
   UP_ARROW: 38,
   DOWN_ARROW: 40,
   SPACE: 32,
+  ONE: 49,
   F: 70,
   C: 67,
+  G: 71,
+  H: 72,
   M: 77,
+  Q: 81,
+  COMMA: 188,
+  PERIOD: 190,
   SLASH: 191
 }
 
@@ -45,11 +60,21 @@ function usePlayerHotkeys(hookProps: Props) {
 
       switch (evt.keyCode) {
         case keys.LEFT_ARROW: {
+          if (props.current.isPlaybackDisabled()) {
+            props.current.onPlaybackDisabled()
+            break
+          }
+
           props.current.onBackward()
           break
         }
 
         case keys.RIGHT_ARROW: {
+          if (props.current.isPlaybackDisabled()) {
+            props.current.onPlaybackDisabled()
+            break
+          }
+
           props.current.onForward()
           break
         }
@@ -79,14 +104,56 @@ function usePlayerHotkeys(hookProps: Props) {
           break
         }
 
+        // Same keys as VLC: G shows subtitles earlier, H shows them later.
+        case keys.G: {
+          props.current.onDecreaseSubtitleDelay()
+          break
+        }
+
+        case keys.H: {
+          props.current.onIncreaseSubtitleDelay()
+          break
+        }
+
+        case keys.Q: {
+          props.current.onQuoteSubtitle()
+          break
+        }
+
         case keys.SPACE: {
           // We don't want the spacebar to trigger focused buttons
           evt.preventDefault()
 
+          if (props.current.isPlaybackDisabled()) {
+            props.current.onPlaybackDisabled()
+            break
+          }
+
           props.current.onPlay()
           break
         }
 
+        case keys.COMMA:
+        case keys.PERIOD: {
+          // We want to trigger < and >, not , and .
+          if (!evt.shiftKey) {
+            break
+          }
+
+          if (props.current.isPlaybackDisabled()) {
+            props.current.onPlaybackDisabled()
+            break
+          }
+
+          if (evt.keyCode === keys.PERIOD) {
+            props.current.onIncreaseSpeed()
+          } else {
+            props.current.onDecreaseSpeed()
+          }
+
+          break
+        }
+
         case keys.SLASH: {
           // We want to trigger ?, not /
           if (evt.shiftKey) {
@@ -97,6 +164,15 @@ function usePlayerHotkeys(hookProps: Props) {
 
           break
         }
+
+        default: {
+          // 1 to 6 send the reaction in the same spot of the player's reaction bar.
+          const index = evt.keyCode - keys.ONE
+
+          if (index >= 0 && index < reactionEmojis.length && !evt.ctrlKey && !evt.metaKey && !evt.altKey) {
+            props.current.onReact(reactionEmojis[index])
+          }
+        }
       }
     }
 
@@ -0,0 +1,58 @@
+import { useState } from 'react'
+import { useAsyncEffect } from 'use-async-effect'
+import axios from '~/lib/axios'
+import { usePropRef } from '~/hooks/usePropRef'
+import subtitles, { SubtitleCue } from '~/lib/subtitles'
+
+interface Props {
+  video: AppShowVideo
+  // The member's chosen subtitle; null if they turned subtitles off.
+  subtitle: AppShowVideoSubtitle | null
+}
+
+/**
+ * Load and parse the cues of the member's chosen subtitle
+ *
+ * @usage
+ * const cues = useSubtitleCues({ video, subtitle })
+ */
+function useSubtitleCues(hookProps: Props): SubtitleCue[] {
+  const props = usePropRef(hookProps)
+
+  const [cues, setCues] = useState<SubtitleCue[]>([])
+
+  useAsyncEffect(
+    async () => {
+      setCues([])
+
+      const subtitle = hookProps.subtitle
+
+      if (subtitle == null) {
+        return
+      }
+
+      const [err, res] = await axios.get(`api/videos/${hookProps.video.id}/subtitles/${subtitle.id}`, {
+        validation: false
+      })
+
+      if (err != null) {
+        return //
+      }
+
+      // The member switched to another language while we were loading this one.
+      const current = props.current.subtitle
+
+      if (current == null || current.id !== subtitle.id) {
+        return
+      }
+
+      setCues(subtitles(res.data.subtitle, subtitle.url))
+    },
+    null,
+    [hookProps.subtitle ? hookProps.subtitle.id : null]
+  )
+
+  return cues
+}
+
+export { useSubtitleCues, useSubtitleCues as default }
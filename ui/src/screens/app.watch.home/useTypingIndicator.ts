@@ -0,0 +1,100 @@
+import { useState, useRef, useEffect } from 'react'
+import { usePusher } from '~/hooks/usePusher'
+import { useAuth } from '~/contexts/Auth'
+import pusher from '~/lib/pusher'
+
+interface Props {
+  party: AppParty
+}
+
+// Pusher limits client events to 10 per second, so we'll only send one every now and then while typing.
+const TYPING_THROTTLE = 2000
+// If we don't hear from someone for a while (e.g., they closed the tab), we'll assume they stopped.
+const TYPING_TIMEOUT = 5000
+
+/**
+ * Lets members know who's composing a message through client events,
+ * which go straight to the other members without passing through the api.
+ *
+ * @usage
+ * const typing = useTypingIndicator({ party })
+ * typing.start() // while the member types
+ * typing.stop() // once they send or clear their message
+ * typing.users // everyone else who's typing
+ */
+function useTypingIndicator(hookProps: Props) {
+  const auth = useAuth()
+
+  const channelName = `presence-chat-party.${hookProps.party.id}`
+
+  const [userIds, setUserIds] = useState<AppId[]>([])
+
+  const timeoutsRef = useRef<{ [id: string]: number }>({})
+
+  const lastSentRef = useRef<number>(0)
+
+  useEffect(() => {
+    return () => {
+      Object.keys(timeoutsRef.current).forEach(id => window.clearTimeout(timeoutsRef.current[id]))
+    }
+  }, [])
+
+  function remove(id: AppId) {
+    window.clearTimeout(timeoutsRef.current[id])
+    delete timeoutsRef.current[id]
+    setUserIds(ids => ids.filter(i => i !== id))
+  }
+
+  usePusher(channelName, 'client-typing', (event: { user_id: AppId }) => {
+    window.clearTimeout(timeoutsRef.current[event.user_id])
+    timeoutsRef.current[event.user_id] = window.setTimeout(() => remove(event.user_id), TYPING_TIMEOUT)
+    setUserIds(ids => (ids.includes(event.user_id) ? ids : [...ids, event.user_id]))
+  })
+
+  usePusher(channelName, 'client-stopped-typing', (event: { user_id: AppId }) => {
+    remove(event.user_id)
+  })
+
+  function trigger(event: string) {
+    // The channel is subscribed to by the watch screen; it may not be ready yet.
+    const channel = pusher().channel(channelName)
+
+    if (channel == null || !channel.subscribed) {
+      return
+    }
+
+    channel.trigger(event, { user_id: auth.data.id })
+  }
+
+  function start() {
+    const now = Date.now()
+
+    if (now - lastSentRef.current < TYPING_THROTTLE) {
+      return
+    }
+
+    lastSentRef.current = now
+    trigger('client-typing')
+  }
+
+  function stop() {
+    // We haven't told anyone we're typing in the first place.
+    if (lastSentRef.current === 0) {
+      return
+    }
+
+    lastSentRef.current = 0
+    trigger('client-stopped-typing')
+  }
+
+  // Members who left the party won't show up here.
+  const users = hookProps.party.members.filter(member => userIds.includes(member.id))
+
+  return {
+    users,
+    start,
+    stop
+  }
+}
+
+export { useTypingIndicator, useTypingIndicator as default }
@@ -3,10 +3,18 @@ import { ContextType } from '../types'
 
 export default React.createContext<ContextType>({
   party: null,
+  syncedAt: 0,
+  resyncs: 0,
+  offsets: {},
   isLoading: false,
   onCancel: () => {},
   onInvite: () => {},
   onAccept: () => {},
   onDecline: () => {},
-  onChangeVideo: () => {}
+  onChangeVideo: () => {},
+  onUpdateSettings: () => {},
+  onUpdateRole: () => {},
+  onSyncState: () => {},
+  onCommitState: () => {},
+  onResync: () => Promise.resolve()
 })
\ No newline at end of file
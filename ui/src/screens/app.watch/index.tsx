@@ -7,6 +7,7 @@ import { usePusher } from '~/hooks/usePusher'
 import { useAsyncEffect } from 'use-async-effect'
 import useReactRouter from 'use-react-router'
 import axios from '~/lib/axios'
+import clock from '~/lib/clock'
 import immer from 'immer'
 
 import { Context } from './Context'
@@ -25,6 +26,7 @@ const reducer = (state: State, action: Action): State => {
       return {
         ...state,
         party: action.payload.party,
+        syncedAt: action.payload.syncedAt,
         isLoading: false
       }
     }
@@ -39,14 +41,50 @@ const reducer = (state: State, action: Action): State => {
     case 'data:update': {
       return {
         ...state,
-        party: action.payload.party
+        party: action.payload.party,
+        syncedAt: action.payload.syncedAt
+      }
+    }
+
+    case 'data:resync': {
+      return {
+        ...state,
+        party: action.payload.party,
+        syncedAt: action.payload.syncedAt,
+        resyncs: state.resyncs + 1
       }
     }
 
     case 'data:sync-state': {
+      // Broadcasts may arrive out of order, so we'll only follow states newer than ours.
+      if (action.payload.state.version <= state.party.state_version) {
+        return state
+      }
+
       return immer(state, draft => {
         draft.party.current_time = action.payload.state.current_time
         draft.party.is_playing = action.payload.state.is_playing
+        draft.party.is_waiting = action.payload.state.is_waiting
+        draft.party.playback_rate = action.payload.state.playback_rate
+        draft.party.state_version = action.payload.state.version
+        draft.party.state_updated_by = action.payload.state.updated_by
+        draft.syncedAt = action.payload.syncedAt
+      })
+    }
+
+    case 'data:commit-state': {
+      if (action.payload.state.version <= state.party.state_version) {
+        return state
+      }
+
+      // Our own change went through. We're already showing it, so we'll leave `syncedAt` alone.
+      return immer(state, draft => {
+        draft.party.current_time = action.payload.state.current_time
+        draft.party.is_playing = action.payload.state.is_playing
+        draft.party.is_waiting = action.payload.state.is_waiting
+        draft.party.playback_rate = action.payload.state.playback_rate
+        draft.party.state_version = action.payload.state.version
+        draft.party.state_updated_by = action.payload.state.updated_by
       })
     }
 
@@ -94,14 +132,67 @@ const reducer = (state: State, action: Action): State => {
           const user = draft.members.find(user => user.id === Number(action.payload.id))
           if (user == null) return
           user.pivot.is_active = action.payload.isActive
+        }),
+        // Members who left are no longer behind or ahead of anyone.
+        offsets: immer(state.offsets, draft => {
+          if (!action.payload.isActive) delete draft[action.payload.id]
         })
       }
     }
+
+    case 'offset': {
+      return {
+        ...state,
+        offsets: {
+          ...state.offsets,
+          [action.payload.id]: action.payload.offset
+        }
+      }
+    }
+
+    case 'buffering': {
+      return {
+        ...state,
+        party: immer(state.party, draft => {
+          const user = draft.members.find(user => user.id === Number(action.payload.id))
+          if (user == null) return
+          user.pivot.is_buffering = action.payload.isBuffering
+        })
+      }
+    }
+
+    case 'role': {
+      return {
+        ...state,
+        party: immer(state.party, draft => {
+          const user = draft.members.find(user => user.id === Number(action.payload.id))
+          if (user == null) return
+          user.pivot.role = action.payload.role
+        })
+      }
+    }
+
+    case 'settings': {
+      return {
+        ...state,
+        party: {
+          ...state.party,
+          ...action.payload.settings
+        }
+      }
+    }
   }
 
   return state
 }
 
+/**
+ * Put the party's position in the present. Parties from before we tracked it are assumed fresh.
+ */
+function getSyncedAt(party: AppParty): number {
+  return party.state_synced_at == null ? Date.now() : clock.toLocalTime(party.state_synced_at)
+}
+
 /**
  * Use this to create a route instead of typing everything down
  */
@@ -110,6 +201,9 @@ function AppWatch(props: ReactComponentWrapper) {
 
   const [state, dispatch] = useReducer(reducer, {
     party: null,
+    syncedAt: 0,
+    resyncs: 0,
+    offsets: {},
     isLoading: true
   })
 
@@ -119,7 +213,9 @@ function AppWatch(props: ReactComponentWrapper) {
         type: 'data:init'
       })
 
-      const [err, res] = await axios.get(`/api/parties/${match.params.partyId}`)
+      // We'll need the offset to put the positions we receive from other members in the present,
+      // so we'll only put the party's position in the present once both are done.
+      const [, [err, res]] = await Promise.all([clock.sync(), axios.get(`/api/parties/${match.params.partyId}`)])
 
       if (err) {
         return dispatch({
@@ -129,7 +225,7 @@ function AppWatch(props: ReactComponentWrapper) {
 
       dispatch({
         type: 'data:success',
-        payload: { party: res.data }
+        payload: { party: res.data, syncedAt: getSyncedAt(res.data) }
       })
     },
     null,
@@ -170,9 +266,63 @@ function AppWatch(props: ReactComponentWrapper) {
     state.party ? `private-party.${state.party.id}` : '',
     'state',
     function(event: { state: AppPartyState }) {
+      handleSyncState(event.state)
+    },
+    state.party == null
+  )
+
+  usePusher(
+    state.party ? `private-party.${state.party.id}` : '',
+    'member.buffering',
+    function(event: { user_id: AppId; is_buffering: boolean }) {
       dispatch({
-        type: 'data:sync-state',
-        payload: { state: event.state }
+        type: 'buffering',
+        payload: {
+          id: event.user_id,
+          isBuffering: event.is_buffering
+        }
+      })
+    },
+    state.party == null
+  )
+
+  usePusher(
+    state.party ? `private-party.${state.party.id}` : '',
+    'settings',
+    function(event: { settings: AppPartySettings }) {
+      dispatch({
+        type: 'settings',
+        payload: { settings: event.settings }
+      })
+    },
+    state.party == null
+  )
+
+  usePusher(
+    state.party ? `private-party.${state.party.id}` : '',
+    'member.role',
+    function(event: { user_id: AppId; role: AppPartyRole }) {
+      dispatch({
+        type: 'role',
+        payload: {
+          id: event.user_id,
+          role: event.role
+        }
+      })
+    },
+    state.party == null
+  )
+
+  usePusher(
+    state.party ? `private-party.${state.party.id}` : '',
+    'member.offset',
+    function(event: { user_id: AppId; offset: number }) {
+      dispatch({
+        type: 'offset',
+        payload: {
+          id: event.user_id,
+          offset: event.offset
+        }
       })
     },
     state.party == null
@@ -213,11 +363,61 @@ function AppWatch(props: ReactComponentWrapper) {
         party: {
           ...party,
           invitations: state.party.invitations
-        }
+        },
+        syncedAt: getSyncedAt(party)
+      }
+    })
+  }
+
+  function handleUpdateSettings(settings: Partial<AppPartySettings>) {
+    dispatch({
+      type: 'settings',
+      payload: { settings }
+    })
+  }
+
+  function handleUpdateRole(id: AppId, role: AppPartyRole) {
+    dispatch({
+      type: 'role',
+      payload: { id, role }
+    })
+  }
+
+  function handleSyncState(state: AppPartyState) {
+    dispatch({
+      type: 'data:sync-state',
+      payload: {
+        state,
+        // The state was stamped before it went through the network, so the
+        // time it took to reach us will be accounted for by the sync engine.
+        syncedAt: clock.toLocalTime(state.timestamp)
       }
     })
   }
 
+  function handleCommitState(state: Omit<AppPartyState, 'timestamp'>) {
+    dispatch({
+      type: 'data:commit-state',
+      payload: { state }
+    })
+  }
+
+  /**
+   * Refetch the party in case we missed something, so we can snap to where everyone is.
+   */
+  async function handleResync() {
+    const [err, res] = await axios.get(`/api/parties/${state.party.id}`)
+
+    if (err) {
+      return
+    }
+
+    dispatch({
+      type: 'data:resync',
+      payload: { party: res.data, syncedAt: getSyncedAt(res.data) }
+    })
+  }
+
   const context = useMemo<ContextType>(() => {
     return {
       ...state,
@@ -225,7 +425,12 @@ function AppWatch(props: ReactComponentWrapper) {
       onInvite: handleInvite,
       onAccept: handleAccept,
       onDecline: handleDecline,
-      onChangeVideo: handleChangeVideo
+      onChangeVideo: handleChangeVideo,
+      onUpdateSettings: handleUpdateSettings,
+      onUpdateRole: handleUpdateRole,
+      onSyncState: handleSyncState,
+      onCommitState: handleCommitState,
+      onResync: handleResync
     }
   }, [state])
 
@@ -1,5 +1,11 @@
 export interface State {
   party: AppParty | null
+  // When the party was at its `current_time` according to our own clock (epoch in ms)
+  syncedAt: number
+  // Bumped whenever the member asks to resync, so we snap to the party even if its state hasn't changed
+  resyncs: number
+  // How far each member's video is from the party position, in seconds (positive if ahead)
+  offsets: { [id: string]: number }
   isLoading: boolean
 }
 
@@ -9,20 +15,31 @@ export interface Handlers {
   onAccept: (invitation: AppPartyInvitation, member: AppPartyMember) => void
   onDecline: (invitation: AppPartyInvitation) => void
   onChangeVideo: (party: AppParty) => void
+  onUpdateSettings: (settings: Partial<AppPartySettings>) => void
+  onUpdateRole: (id: AppId, role: AppPartyRole) => void
+  onSyncState: (state: AppPartyState) => void
+  onCommitState: (state: Omit<AppPartyState, 'timestamp'>) => void
+  onResync: () => Promise<void>
 }
 
 export type ContextType = State & Handlers
 
 export type Action = ReducerAction<'data:init'>
- | ReducerAction<'data:success', { party: AppParty }>
+ | ReducerAction<'data:success', { party: AppParty; syncedAt: number }>
  | ReducerAction<'data:error'>
- | ReducerAction<'data:update', { party: AppParty }>
- | ReducerAction<'data:sync-state', { state: AppPartyState }>
+ | ReducerAction<'data:update', { party: AppParty; syncedAt: number }>
+ | ReducerAction<'data:resync', { party: AppParty; syncedAt: number }>
+ | ReducerAction<'data:sync-state', { state: AppPartyState; syncedAt: number }>
+ | ReducerAction<'data:commit-state', { state: Omit<AppPartyState, 'timestamp'> }>
  | ReducerAction<'invitation.send', { invitation: AppPartyInvitation }>
  | ReducerAction<'invitation.cancel', { invitation: AppPartyInvitation }>
  | ReducerAction<'invitation.accept', { invitation: AppPartyInvitation, member: AppPartyMember }>
  | ReducerAction<'invitation.decline', { invitation: AppPartyInvitation }>
  | ReducerAction<'presence', { id: AppId, isActive: boolean }>
+ | ReducerAction<'buffering', { id: AppId, isBuffering: boolean }>
+ | ReducerAction<'settings', { settings: Partial<AppPartySettings> }>
+ | ReducerAction<'role', { id: AppId, role: AppPartyRole }>
+ | ReducerAction<'offset', { id: AppId, offset: number }>
 
 export interface RouteParams {
   partyId: string
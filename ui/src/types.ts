@@ -59,7 +59,7 @@ interface AppPartyInvitation {
 interface AppPartyLog {
   id: AppId
   party_id: AppId
-  type: 'activity' | 'message'
+  type: 'activity' | 'message' | 'quote'
   activity?: {
     id: string
     text: string
@@ -71,9 +71,54 @@ interface AppPartyLog {
     id: string
     text: string
     user: AppUser
+    // The episode the sender was watching; null for messages sent before we kept track of it
+    show_video_id: AppId | null
+    video: Pick<AppShowVideo, 'id' | 'title'> | null
+    // Where the sender was in the video, in seconds
+    current_time: number | null
+    // The log (message or quote) being replied to
+    reply_to_id: AppId | null
+    // Null if it isn't a reply, or if the log being replied to was removed
+    reply_to: AppPartyLogReply | null
+    // Generated by the sender to avoid posting the same message twice when resending
+    client_id: string | null
+    edited_at: string | null
+    // Removed messages are kept in the chat without their text
+    removed_at: string | null
     created_at: string
     updated_at: string
   }
+  // A subtitle line posted to the chat
+  quote?: {
+    id: string
+    text: string
+    user: AppUser
+    show_video_id: AppId
+    // When the line shows up in the video, in seconds
+    time: number
+    created_at: string
+    updated_at: string
+  }
+  // Missing while the log is still being sent
+  reactions?: AppPartyLogReaction[]
+  created_at: string
+  updated_at: string
+}
+
+// A preview of the log being replied to
+interface AppPartyLogReply {
+  id: AppId
+  type: 'message' | 'quote'
+  text: string
+  user: AppUser
+}
+
+interface AppPartyLogReaction {
+  id: AppId
+  party_log_id: AppId
+  user_id: AppId
+  emoji: string
+  user: AppUser
   created_at: string
   updated_at: string
 }
@@ -89,11 +134,34 @@ interface AppShowVideo {
   show?: AppShow
   group?: AppShowGroup
   duration: number
-  subtitle_url: string
+  subtitles: AppShowVideoSubtitle[]
   created_at: string
   updated_at: string
 }
 
+interface AppShowVideoSubtitle {
+  id: AppId
+  show_video_id: AppId
+  // ISO 639-1 code (e.g., en)
+  language: string
+  label: string
+  url: string
+  created_at: string
+  updated_at: string
+}
+
+// How subtitles look for the member; stored on the device and applied to every party.
+interface AppSubtitleAppearance {
+  // Relative to the default subtitle size
+  fontScale: number
+  color: string
+  // Opacity of the box behind the text (0 for none)
+  backgroundOpacity: number
+  outline: 'none' | 'thin' | 'thick'
+  // How far bottom subtitles are raised, in percent of the video's height
+  position: number
+}
+
 interface AppShowGroup {
   id: AppId
   show_id: AppId
@@ -119,9 +187,16 @@ interface AppShow {
   movie: AppShowVideo | null
 }
 
+type AppPartyRole = 'host' | 'co-host' | 'viewer'
+
+// Who among the members is allowed to do something (e.g., control playback)
+type AppPartyControl = 'everyone' | 'co-hosts' | 'host'
+
 type AppPartyMember = AppUser & {
   pivot: {
     is_active: boolean
+    is_buffering: boolean
+    role: AppPartyRole
   }
 }
 
@@ -130,6 +205,20 @@ interface AppParty {
   show_video_id: AppId
   is_playing: boolean
   current_time: number
+  // Pause the party whenever someone's buffering
+  wait_for_everyone: boolean
+  // Whether the party was paused to wait for someone
+  is_waiting: boolean
+  playback_control: AppPartyControl
+  video_control: AppPartyControl
+  // Every member plays at this speed (0.5 - 2)
+  playback_rate: number
+  // Incremented whenever the party is played, paused, or seeked
+  state_version: number
+  // Who made the latest state change; null if the server did (e.g., waiting for everyone)
+  state_updated_by: AppId | null
+  // When the party was at `current_time` according to the server clock (epoch in ms)
+  state_synced_at: number | null
   video?: AppShowVideo
   invitations?: AppPartyInvitation[]
   members: AppPartyMember[]
@@ -141,6 +230,18 @@ interface AppParty {
 interface AppPartyState {
   is_playing: boolean
   current_time: number
+  is_waiting: boolean
+  playback_rate: number
+  version: number
+  updated_by: AppId | null
+  // When the party was at `current_time` according to the server clock (epoch in ms)
+  timestamp: number
+}
+
+interface AppPartySettings {
+  wait_for_everyone: boolean
+  playback_control: AppPartyControl
+  video_control: AppPartyControl
 }
 
 interface PusherPresenceEvent<T = {}> {
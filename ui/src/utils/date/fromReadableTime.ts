@@ -1,14 +1,13 @@
 /**
- * Get the number of seconds from readable time (01:03:20,200 -> 3800)
+ * Get the number of seconds from readable time, keeping the milliseconds
+ * (01:03:20,200 -> 3800.2, 03:20.200 -> 200.2)
  */
 function fromReadableTime(time: string): number {
-  const [hour, minute, seconds] = time.split(',')[0].split(':')
+  const [clock, fraction = '0'] = time.trim().replace(',', '.').split('.')
 
-  return (
-    (Number(hour) * 60 * 60) +
-    (Number(minute) * 60) +
-    Number(seconds)
-  )
+  const seconds = clock.split(':').reduce((total, unit) => total * 60 + Number(unit), 0)
+
+  return seconds + Number(`0.${fraction}`)
 }
 
-export default fromReadableTime
\ No newline at end of file
+export default fromReadableTime
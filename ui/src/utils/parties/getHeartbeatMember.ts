@@ -0,0 +1,25 @@
+import getPartyPermissions from './getPartyPermissions'
+
+const ranks: AppPartyRole[] = ['host', 'co-host', 'viewer']
+
+/**
+ * Elect the member who reports the playing position for everyone.
+ * Every member runs this against the same list, so they'll agree without talking to each other.
+ * We prefer hosts, then the earliest account, among active members who can control playback.
+ */
+export default function getHeartbeatMember(party: AppParty, user: AppUser): AppPartyMember | null {
+  const candidates = party.members.filter(member => {
+    // We'll count ourselves in since our own presence may not have reached the party yet.
+    const isActive = member.pivot.is_active || member.id === user.id
+    return isActive && getPartyPermissions(party, member).canControlPlayback
+  })
+
+  if (!candidates.length) {
+    return null
+  }
+
+  return candidates.sort((a, b) => {
+    const rank = ranks.indexOf(a.pivot.role) - ranks.indexOf(b.pivot.role)
+    return rank === 0 ? Number(a.id) - Number(b.id) : rank
+  })[0]
+}
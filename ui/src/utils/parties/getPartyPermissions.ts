@@ -0,0 +1,42 @@
+export interface PartyPermissions {
+  role: AppPartyRole
+  isHost: boolean
+  canControlPlayback: boolean
+  canChangeVideo: boolean
+  // Explains why the member can't control playback; empty if they can.
+  playbackReason: string
+  // Explains why the member can't change the video; empty if they can.
+  videoReason: string
+}
+
+const controllers: { [control: string]: AppPartyRole[] } = {
+  everyone: ['host', 'co-host', 'viewer'],
+  'co-hosts': ['host', 'co-host'],
+  host: ['host']
+}
+
+const descriptions: { [control: string]: string } = {
+  everyone: 'Everyone',
+  'co-hosts': 'Only the host and co-hosts',
+  host: 'Only the host'
+}
+
+/**
+ * Check what the user is allowed to do in the party based on their role and the host's policy.
+ * Mirrors `Party::allows` from the api.
+ */
+export default function getPartyPermissions(party: AppParty, user: AppUser): PartyPermissions {
+  const member = party.members.find(member => member.id === user.id)
+  const role: AppPartyRole = member ? member.pivot.role : 'viewer'
+  const canControlPlayback = controllers[party.playback_control].includes(role)
+  const canChangeVideo = controllers[party.video_control].includes(role)
+
+  return {
+    role,
+    isHost: role === 'host',
+    canControlPlayback,
+    canChangeVideo,
+    playbackReason: canControlPlayback ? '' : `${descriptions[party.playback_control]} can control playback`,
+    videoReason: canChangeVideo ? '' : `${descriptions[party.video_control]} can change the video`
+  }
+}
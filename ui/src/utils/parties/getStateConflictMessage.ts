@@ -0,0 +1,30 @@
+/**
+ * Describe the state that got ahead of ours, e.g., "Alex seeked at the same time; following Alex"
+ *
+ * @param party The party as we last saw it before our change was rejected
+ * @param state The state that won
+ */
+export default function getStateConflictMessage(party: AppParty, state: AppPartyState): string {
+  const member = party.members.find(member => member.id === state.updated_by)
+
+  // The server paused or resumed the party on its own (e.g., while waiting for everyone).
+  if (member == null) {
+    return 'The party changed at the same time; following the party'
+  }
+
+  const action = getAction(party, state)
+
+  return `${member.name} ${action} at the same time; following ${member.name}`
+}
+
+function getAction(party: AppParty, state: AppPartyState): string {
+  if (state.playback_rate !== party.playback_rate) {
+    return 'changed the speed'
+  }
+
+  if (state.is_playing !== party.is_playing) {
+    return state.is_playing ? 'played' : 'paused'
+  }
+
+  return 'seeked'
+}
@@ -0,0 +1,28 @@
+export interface SyncHealth {
+  status: 'good' | 'fair' | 'poor'
+  // e.g., "In sync", "1.2s behind"
+  text: string
+}
+
+// Mirrors the drift tolerance of the sync engine; anything below is unnoticeable.
+const IN_SYNC_THRESHOLD = 0.3
+// Past this, people will notice reactions and chat not lining up with the video.
+const FAIR_THRESHOLD = 1
+
+/**
+ * Describe how far a member's video is from the party position
+ *
+ * @param offset Seconds ahead (positive) or behind (negative) the party
+ */
+export default function getSyncHealth(offset: number): SyncHealth {
+  const distance = Math.abs(offset)
+
+  if (distance < IN_SYNC_THRESHOLD) {
+    return { status: 'good', text: 'In sync' }
+  }
+
+  return {
+    status: distance < FAIR_THRESHOLD ? 'fair' : 'poor',
+    text: `${distance.toFixed(1)}s ${offset > 0 ? 'ahead' : 'behind'}`
+  }
+}
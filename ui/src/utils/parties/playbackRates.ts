@@ -0,0 +1,6 @@
+/**
+ * Speeds the party can play at. Keep in sync with the `UpdatePlaybackRate` request from the api.
+ */
+const playbackRates: number[] = [0.5, 0.75, 1, 1.25, 1.5, 2]
+
+export default playbackRates
@@ -0,0 +1,6 @@
+/**
+ * Emojis members can react to messages with. Keep in sync with `PartyLogReaction::EMOJIS` from the api.
+ */
+const reactionEmojis: string[] = ['👍', '❤️', '😂', '😮', '😢', '🔥']
+
+export default reactionEmojis
@@ -0,0 +1,6 @@
+/**
+ * Episode 3 -> Ep 3; other titles are kept as they are.
+ */
+export default function getShortVideoTitle(video: Pick<AppShowVideo, 'title'>): string {
+  return video.title.replace(/^Episode\b/i, 'Ep')
+}
@@ -0,0 +1,10 @@
+/**
+ * 0.3 -> +0.3s, -1 -> -1.0s, 0 -> 0s
+ */
+export default function getSubtitleDelayText(delay: number): string {
+  if (delay === 0) {
+    return '0s'
+  }
+
+  return `${delay > 0 ? '+' : '-'}${Math.abs(delay).toFixed(1)}s`
+}
@@ -0,0 +1,11 @@
+/**
+ * Get the subtitle to show for the member's preferred language ('off' to disable subtitles).
+ * If the video isn't subtitled in their language, we'll fall back to the first subtitle available.
+ */
+export default function getSubtitleTrack(video: AppShowVideo, language: string): AppShowVideoSubtitle | null {
+  if (language === 'off' || !video.subtitles.length) {
+    return null
+  }
+
+  return video.subtitles.find(subtitle => subtitle.language === language) || video.subtitles[0]
+}